@@ -17,6 +17,11 @@ export default [
         performance: 'readonly',
         setInterval: 'readonly',
         clearInterval: 'readonly',
+        TextEncoder: 'readonly',
+        TextDecoder: 'readonly',
+        WeakRef: 'readonly',
+        URL: 'readonly',
+        structuredClone: 'readonly',
         NodeJS: 'readonly'
       }
     },
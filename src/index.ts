@@ -4,6 +4,11 @@ export {
   createEnhancedTurboMap,
   type EnhancedTurboMapLike as TurboMapLike,
   type EnhancedTurboMapOptions as TurboMapOptions,
+  type EnhancedSetOptions as TurboMapSetOptions,
+  type TurboMapTransaction,
+  createSortedTurboMap,
+  type SortedTurboMapLike,
+  type KeyComparator,
   type MapKey,
   type PrimitiveKey,
   type ObjectKey
@@ -20,6 +25,13 @@ export {
   // Fast hashing
   FastHasher,
   globalFastHasher,
+  type FastHashOptions,
+  SymbolRegistry,
+  globalSymbolRegistry,
+  type SymbolIdentityMode,
+
+  // Ordered collections
+  SkipList,
 
   // Error recovery
   ErrorRecoveryManager,
@@ -33,11 +45,89 @@ export {
   type CacheStats,
   type TieredCacheOptions,
 
+  // Eviction policies
+  LRUEvictionPolicy,
+  LFUEvictionPolicy,
+  FIFOEvictionPolicy,
+  createEvictionPolicy,
+  type EvictionPolicy,
+  type EvictionPolicyName,
+
   // Serialization
   AdaptiveSerializer,
   globalSerializer,
   type SerializationContext,
   type SerializationStrategy,
+  type SerializeOptions,
+  ClassTagRegistry,
+  globalClassTagRegistry,
+  KeyCollisionError,
+  KeySerializationError,
+
+  // Change events
+  ChangeEmitter,
+  type TurboMapEventType,
+  type TurboMapChangeEvent,
+  type TurboMapListener,
+  type Unsubscribe,
+
+  // Key identity protocol
+  TurboMap,
+  hasKeyProtocol,
+  type TurboMapHashable,
+  type TurboMapEquatable,
+
+  // Typed encoding
+  TypedCodec,
+  globalTypedCodec,
+  type TypedValue,
+  type SerializedTurboMap,
+  BinaryCodec,
+  globalBinaryCodec,
+
+  // Key serialization
+  serializeKey,
+  createKeySerializer,
+  type KeySerializer,
+  type KeySerializerOptions,
+
+  // Structural collections
+  TurboSet,
+  createTurboSet,
+  type TurboSetOptions,
+  TurboMultiMap,
+  createTurboMultiMap,
+  type TurboMultiMapOptions,
+  TurboBiMap,
+  createTurboBiMap,
+  type TurboBiMapOptions,
+  type BiMapConflictPolicy,
+  TurboReplicatedMap,
+  createReplicatedTurboMap,
+  compareStamps,
+  type TurboReplicatedMapOptions,
+  type ReplicaStamp,
+  type ReplicatedEntryState,
+  type ReplicatedMapState,
+
+  // Diffs and patches
+  encodePatch,
+  decodePatch,
+  isTurboMapPatch,
+  valuesEqual,
+  type TurboMapDiff,
+  type TurboMapPatch,
+
+  // Key mutation guards
+  deepFreeze,
+  snapshotKey,
+  type KeyMutationMode,
+  type KeyDrift,
+
+  // Secondary indexes
+  SecondaryIndex,
+  type IndexExtractor,
+  type SecondaryIndexStats,
 
   // Async operations
   AsyncTurboMap,
@@ -53,6 +143,28 @@ export {
   type PluginContext,
   type PluginStats,
 
+  // Persistence
+  FilePersistence,
+  type FilePersistenceOptions,
+  StoragePersistence,
+  isQuotaExceededError,
+  type StorageLike,
+  type StoragePersistenceOptions,
+  type PersistenceRecord,
+  WriteAheadLog,
+  type WalRecord,
+  type WalRecoveryReport,
+  type WalStatus,
+
+  // Cross-worker sync
+  WorkerSync,
+  compareClocks,
+  type SyncChannel,
+  type SyncMessage,
+  type SyncUpdate,
+  type VectorClock,
+  type WorkerSyncOptions,
+
   // Diagnostics
   PerformanceMonitor,
   MemoryAnalyzer,
@@ -0,0 +1,533 @@
+/**
+ * Compact binary snapshots for TurboMaps
+ *
+ * A MessagePack-style tagged encoding: small integers and short strings take a
+ * single tag byte, everything else is a tag followed by a fixed layout. Type
+ * classification is shared with TypedCodec, so both formats agree on what a
+ * value is.
+ */
+
+import { TypedCodec, globalTypedCodec } from './TypedCodec'
+import { fromBinaryData, toBinaryData } from '../utils/BinaryData'
+
+/**
+ * Tag bytes
+ */
+const Tag = {
+  FIXINT_MAX: 0x7f,
+  FIXSTR: 0xa0, // 0xa0-0xbf, length in the low 5 bits
+  NULL: 0xc0,
+  UNDEFINED: 0xc1,
+  FALSE: 0xc2,
+  TRUE: 0xc3,
+  FLOAT64: 0xcb,
+  INT32: 0xd2,
+  STR32: 0xdb,
+  ARRAY: 0xdd,
+  OBJECT: 0xdf,
+  BIGINT: 0xe0,
+  SYMBOL: 0xe1,
+  DATE: 0xe2,
+  REGEXP: 0xe3,
+  ERROR: 0xe4,
+  FUNCTION: 0xe5,
+  MAP: 0xe6,
+  SET: 0xe7,
+  BYTES: 0xe8,
+  URL: 0xe9,
+  CLASS: 0xea // registered class tag, then the object layout
+} as const
+
+const MAGIC = [0x54, 0x4d, 0x42] // "TMB"
+const FORMAT_VERSION = 1
+
+const SYMBOL_LOCAL = 0
+const SYMBOL_LOCAL_DESCRIBED = 1
+const SYMBOL_GLOBAL = 2
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * Growable output buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024)
+  private view = new DataView(this.buffer.buffer)
+  private offset = 0
+
+  private ensure(bytes: number): void {
+    const required = this.offset + bytes
+    if (required <= this.buffer.length) return
+
+    let size = this.buffer.length * 2
+    while (size < required) size *= 2
+    const next = new Uint8Array(size)
+    next.set(this.buffer.subarray(0, this.offset))
+    this.buffer = next
+    this.view = new DataView(next.buffer)
+  }
+
+  writeByte(byte: number): void {
+    this.ensure(1)
+    this.buffer[this.offset++] = byte
+  }
+
+  writeUint32(value: number): void {
+    this.ensure(4)
+    this.view.setUint32(this.offset, value)
+    this.offset += 4
+  }
+
+  writeInt32(value: number): void {
+    this.ensure(4)
+    this.view.setInt32(this.offset, value)
+    this.offset += 4
+  }
+
+  writeFloat64(value: number): void {
+    this.ensure(8)
+    this.view.setFloat64(this.offset, value)
+    this.offset += 8
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.writeUint32(bytes.length)
+    this.ensure(bytes.length)
+    this.buffer.set(bytes, this.offset)
+    this.offset += bytes.length
+  }
+
+  /**
+   * Length-prefixed UTF-8 string without a tag byte
+   */
+  writeRawString(value: string): void {
+    this.ensure(4 + value.length * 3)
+    const start = this.offset + 4
+    const { written } = textEncoder.encodeInto(value, this.buffer.subarray(start))
+    this.view.setUint32(this.offset, written)
+    this.offset = start + written
+  }
+
+  /**
+   * Tagged string, using fixstr for short ASCII-sized payloads
+   */
+  writeString(value: string): void {
+    if (value.length < 32) {
+      this.ensure(1 + value.length * 3)
+      const start = this.offset + 1
+      const { written } = textEncoder.encodeInto(value, this.buffer.subarray(start))
+      if (written < 32) {
+        this.buffer[this.offset] = Tag.FIXSTR | written
+        this.offset = start + written
+        return
+      }
+    }
+    this.writeByte(Tag.STR32)
+    this.writeRawString(value)
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset)
+  }
+}
+
+/**
+ * Bounds-checked input cursor
+ */
+class ByteReader {
+  private view: DataView
+  private offset = 0
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  private require(bytes: number): void {
+    if (this.offset + bytes > this.bytes.length) {
+      throw new Error('BinaryCodec: Unexpected end of data')
+    }
+  }
+
+  readByte(): number {
+    this.require(1)
+    return this.bytes[this.offset++] as number
+  }
+
+  readUint32(): number {
+    this.require(4)
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  readInt32(): number {
+    this.require(4)
+    const value = this.view.getInt32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  readFloat64(): number {
+    this.require(8)
+    const value = this.view.getFloat64(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  readUtf8(length: number): string {
+    this.require(length)
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length))
+    this.offset += length
+    return value
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readUint32()
+    this.require(length)
+    const bytes = this.bytes.slice(this.offset, this.offset + length)
+    this.offset += length
+    return bytes
+  }
+
+  readRawString(): string {
+    return this.readUtf8(this.readUint32())
+  }
+}
+
+/**
+ * Binary encoder/decoder for keys, values and whole maps
+ */
+export class BinaryCodec {
+  private typedCodec: TypedCodec
+
+  constructor(typedCodec: TypedCodec = globalTypedCodec) {
+    this.typedCodec = typedCodec
+  }
+
+  /**
+   * Encode map entries into a snapshot
+   */
+  encodeEntries(entries: Iterable<readonly [unknown, unknown]>): Uint8Array {
+    const body = new ByteWriter()
+    let count = 0
+    for (const [key, value] of entries) {
+      this.writeValue(body, key, new WeakSet<object>())
+      this.writeValue(body, value, new WeakSet<object>())
+      count++
+    }
+
+    const payload = body.finish()
+    const output = new ByteWriter()
+    for (const byte of MAGIC) output.writeByte(byte)
+    output.writeByte(FORMAT_VERSION)
+    output.writeUint32(count)
+    const header = output.finish()
+
+    const result = new Uint8Array(header.length + payload.length)
+    result.set(header)
+    result.set(payload, header.length)
+    return result
+  }
+
+  /**
+   * Decode map entries from a snapshot
+   */
+  decodeEntries(bytes: Uint8Array): [unknown, unknown][] {
+    if (!(bytes instanceof Uint8Array)) {
+      throw new Error('BinaryCodec: Expected a Uint8Array')
+    }
+
+    const reader = new ByteReader(bytes)
+    for (const byte of MAGIC) {
+      if (reader.readByte() !== byte) {
+        throw new Error('BinaryCodec: Not a TurboMap snapshot')
+      }
+    }
+    const version = reader.readByte()
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`BinaryCodec: Unsupported format version ${version}`)
+    }
+
+    const count = reader.readUint32()
+    const entries: [unknown, unknown][] = []
+    for (let i = 0; i < count; i++) {
+      entries.push([this.readValue(reader), this.readValue(reader)])
+    }
+    if (!reader.done) {
+      throw new Error('BinaryCodec: Trailing data after snapshot')
+    }
+    return entries
+  }
+
+  /**
+   * Encode a single value
+   */
+  encode(value: unknown): Uint8Array {
+    const writer = new ByteWriter()
+    this.writeValue(writer, value, new WeakSet<object>())
+    return writer.finish()
+  }
+
+  /**
+   * Decode a single value
+   */
+  decode(bytes: Uint8Array): unknown {
+    const reader = new ByteReader(bytes)
+    const value = this.readValue(reader)
+    if (!reader.done) {
+      throw new Error('BinaryCodec: Trailing data after value')
+    }
+    return value
+  }
+
+  private writeValue(writer: ByteWriter, value: unknown, visited: WeakSet<object>): void {
+    const tag = this.typedCodec.getTypeTag(value)
+
+    switch (tag) {
+      case 'null':
+        writer.writeByte(Tag.NULL)
+        return
+      case 'undefined':
+        writer.writeByte(Tag.UNDEFINED)
+        return
+      case 'boolean':
+        writer.writeByte(value ? Tag.TRUE : Tag.FALSE)
+        return
+      case 'number':
+        this.writeNumber(writer, value as number)
+        return
+      case 'string':
+        writer.writeString(value as string)
+        return
+      case 'bigint':
+        writer.writeByte(Tag.BIGINT)
+        writer.writeRawString((value as bigint).toString())
+        return
+      case 'symbol': {
+        const symbol = value as symbol
+        const globalKey = Symbol.keyFor(symbol)
+        writer.writeByte(Tag.SYMBOL)
+        if (globalKey !== undefined) {
+          writer.writeByte(SYMBOL_GLOBAL)
+          writer.writeRawString(globalKey)
+        } else if (symbol.description !== undefined) {
+          writer.writeByte(SYMBOL_LOCAL_DESCRIBED)
+          writer.writeRawString(symbol.description)
+        } else {
+          writer.writeByte(SYMBOL_LOCAL)
+        }
+        return
+      }
+      case 'date':
+        writer.writeByte(Tag.DATE)
+        writer.writeFloat64((value as Date).getTime())
+        return
+      case 'regexp':
+        writer.writeByte(Tag.REGEXP)
+        writer.writeRawString((value as RegExp).source)
+        writer.writeRawString((value as RegExp).flags)
+        return
+      case 'error':
+        writer.writeByte(Tag.ERROR)
+        writer.writeRawString((value as Error).name)
+        writer.writeRawString((value as Error).message)
+        return
+      case 'function':
+        writer.writeByte(Tag.FUNCTION)
+        writer.writeRawString((value as Function).name)
+        writer.writeUint32((value as Function).length)
+        return
+      case 'bytes': {
+        const { type, bytes } = toBinaryData(value as ArrayBuffer | ArrayBufferView)
+        writer.writeByte(Tag.BYTES)
+        writer.writeRawString(type)
+        writer.writeBytes(bytes)
+        return
+      }
+      case 'url':
+        writer.writeByte(Tag.URL)
+        writer.writeRawString((value as URL).href)
+        return
+      default:
+        this.writeStructure(writer, tag, value as object, visited)
+    }
+  }
+
+  private writeNumber(writer: ByteWriter, value: number): void {
+    if (Number.isInteger(value) && !Object.is(value, -0)) {
+      if (value >= 0 && value <= Tag.FIXINT_MAX) {
+        writer.writeByte(value)
+        return
+      }
+      if (value >= -0x80000000 && value <= 0x7fffffff) {
+        writer.writeByte(Tag.INT32)
+        writer.writeInt32(value)
+        return
+      }
+    }
+    writer.writeByte(Tag.FLOAT64)
+    writer.writeFloat64(value)
+  }
+
+  private writeStructure(
+    writer: ByteWriter,
+    tag: 'array' | 'object' | 'map' | 'set',
+    value: object,
+    visited: WeakSet<object>
+  ): void {
+    if (visited.has(value)) {
+      throw new Error('BinaryCodec: Circular structures cannot be encoded')
+    }
+    visited.add(value)
+
+    try {
+      switch (tag) {
+        case 'array': {
+          const items = value as unknown[]
+          writer.writeByte(Tag.ARRAY)
+          writer.writeUint32(items.length)
+          for (const item of items) this.writeValue(writer, item, visited)
+          return
+        }
+        case 'map': {
+          const map = value as Map<unknown, unknown>
+          writer.writeByte(Tag.MAP)
+          writer.writeUint32(map.size)
+          for (const [key, item] of map) {
+            this.writeValue(writer, key, visited)
+            this.writeValue(writer, item, visited)
+          }
+          return
+        }
+        case 'set': {
+          const set = value as Set<unknown>
+          writer.writeByte(Tag.SET)
+          writer.writeUint32(set.size)
+          for (const item of set) this.writeValue(writer, item, visited)
+          return
+        }
+        default: {
+          const keys = Object.keys(value)
+          const classTag = this.typedCodec.getClassTag(value)
+          if (classTag === undefined) {
+            writer.writeByte(Tag.OBJECT)
+          } else {
+            writer.writeByte(Tag.CLASS)
+            writer.writeRawString(classTag)
+          }
+          writer.writeUint32(keys.length)
+          for (const key of keys) {
+            writer.writeRawString(key)
+            this.writeValue(writer, (value as Record<string, unknown>)[key], visited)
+          }
+        }
+      }
+    } finally {
+      visited.delete(value)
+    }
+  }
+
+  private readValue(reader: ByteReader): unknown {
+    const tag = reader.readByte()
+
+    if (tag <= Tag.FIXINT_MAX) {
+      return tag
+    }
+    if (tag >= Tag.FIXSTR && tag < Tag.NULL) {
+      return reader.readUtf8(tag & 0x1f)
+    }
+
+    switch (tag) {
+      case Tag.NULL:
+        return null
+      case Tag.UNDEFINED:
+        return undefined
+      case Tag.FALSE:
+        return false
+      case Tag.TRUE:
+        return true
+      case Tag.FLOAT64:
+        return reader.readFloat64()
+      case Tag.INT32:
+        return reader.readInt32()
+      case Tag.STR32:
+        return reader.readRawString()
+      case Tag.BIGINT:
+        return BigInt(reader.readRawString())
+      case Tag.SYMBOL: {
+        const kind = reader.readByte()
+        if (kind === SYMBOL_GLOBAL) return Symbol.for(reader.readRawString())
+        if (kind === SYMBOL_LOCAL_DESCRIBED) return Symbol(reader.readRawString())
+        return Symbol()
+      }
+      case Tag.DATE:
+        return new Date(reader.readFloat64())
+      case Tag.REGEXP: {
+        const source = reader.readRawString()
+        return new RegExp(source, reader.readRawString())
+      }
+      case Tag.ERROR: {
+        const name = reader.readRawString()
+        const error = new Error(reader.readRawString())
+        error.name = name
+        return error
+      }
+      case Tag.FUNCTION: {
+        const name = reader.readRawString()
+        return this.typedCodec.decode({ $t: 'function', name, length: reader.readUint32() })
+      }
+      case Tag.BYTES: {
+        const type = reader.readRawString()
+        return fromBinaryData(type, reader.readBytes())
+      }
+      case Tag.URL:
+        return new URL(reader.readRawString())
+      case Tag.ARRAY: {
+        const length = reader.readUint32()
+        const items: unknown[] = []
+        for (let i = 0; i < length; i++) items.push(this.readValue(reader))
+        return items
+      }
+      case Tag.OBJECT:
+      case Tag.CLASS: {
+        const result = tag === Tag.CLASS ? this.typedCodec.createClassInstance(reader.readRawString()) : {}
+        const count = reader.readUint32()
+        for (let i = 0; i < count; i++) {
+          const key = reader.readRawString()
+          const item = this.readValue(reader)
+          if (key === '__proto__') {
+            Object.defineProperty(result, key, { value: item, enumerable: true, writable: true, configurable: true })
+          } else {
+            result[key] = item
+          }
+        }
+        return result
+      }
+      case Tag.MAP: {
+        const size = reader.readUint32()
+        const map = new Map<unknown, unknown>()
+        for (let i = 0; i < size; i++) {
+          const key = this.readValue(reader)
+          map.set(key, this.readValue(reader))
+        }
+        return map
+      }
+      case Tag.SET: {
+        const size = reader.readUint32()
+        const set = new Set<unknown>()
+        for (let i = 0; i < size; i++) set.add(this.readValue(reader))
+        return set
+      }
+      default:
+        throw new Error(`BinaryCodec: Unknown tag 0x${tag.toString(16)}`)
+    }
+  }
+}
+
+// Global instance
+export const globalBinaryCodec = new BinaryCodec()
@@ -0,0 +1,109 @@
+/**
+ * Change notification for TurboMap mutations
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+
+/**
+ * Mutation event types
+ */
+export type TurboMapEventType = 'set' | 'delete' | 'clear' | 'evict'
+
+/**
+ * Change event emitted after a mutation has been applied
+ */
+export interface TurboMapChangeEvent<K extends MapKey, V, T extends TurboMapEventType = TurboMapEventType> {
+  type: T
+  key: K | undefined // undefined for clear
+  oldValue: V | undefined
+  newValue: V | undefined // only set for 'set'
+  timestamp: number
+}
+
+/**
+ * Listener receiving every change event
+ */
+export type TurboMapListener<K extends MapKey, V> = (event: TurboMapChangeEvent<K, V>) => void
+
+/**
+ * Handle returned by subscribe() and on()
+ */
+export type Unsubscribe = () => void
+
+/**
+ * Lightweight synchronous event emitter for map changes
+ */
+export class ChangeEmitter<K extends MapKey, V> {
+  private listeners = new Set<TurboMapListener<K, V>>()
+  private handlers = new Map<TurboMapEventType, Set<TurboMapListener<K, V>>>()
+
+  /**
+   * Listen to every change event
+   */
+  subscribe(listener: TurboMapListener<K, V>): Unsubscribe {
+    if (typeof listener !== 'function') {
+      throw new Error('subscribe requires a listener function')
+    }
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Listen to a single event type
+   */
+  on<T extends TurboMapEventType>(
+    type: T,
+    handler: (event: TurboMapChangeEvent<K, V, T>) => void
+  ): Unsubscribe {
+    if (typeof handler !== 'function') {
+      throw new Error('on requires a handler function')
+    }
+    let handlers = this.handlers.get(type)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(type, handlers)
+    }
+    const listener = handler as TurboMapListener<K, V>
+    handlers.add(listener)
+    return () => {
+      handlers.delete(listener)
+    }
+  }
+
+  /**
+   * Check whether anyone is listening, so callers can skip building events
+   */
+  hasListeners(): boolean {
+    if (this.listeners.size > 0) return true
+    for (const handlers of this.handlers.values()) {
+      if (handlers.size > 0) return true
+    }
+    return false
+  }
+
+  /**
+   * Deliver an event; a failing listener never affects the others
+   */
+  emit(event: TurboMapChangeEvent<K, V>): void {
+    const typed = this.handlers.get(event.type)
+    const targets = typed ? [...this.listeners, ...typed] : [...this.listeners]
+
+    for (const listener of targets) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.warn(`ChangeEmitter: Listener failed for ${event.type}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners
+   */
+  clear(): void {
+    this.listeners.clear()
+    this.handlers.clear()
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Class tags for serializing keys that are class instances
+ */
+
+type Constructor = abstract new (...args: never[]) => unknown
+
+/**
+ * Maps constructors to the tags that identify their instances in serialized keys
+ *
+ * Registered tags are chosen by the application and stay the same across processes, so
+ * they are safe for persisted keys. Other classes get a tag derived from their name, with
+ * a per-process suffix when distinct classes share a name.
+ */
+export class ClassTagRegistry {
+  private registered = new Map<Function, string>()
+  private owners = new Map<string, Function>()
+  private generated = new WeakMap<Function, string>()
+  private nameCounts = new Map<string, number>()
+
+  /**
+   * Give a class a stable tag; a tag can only belong to one class
+   */
+  register(ctor: Constructor, tag: string): void {
+    if (!tag || tag.includes('#')) {
+      throw new Error(`ClassTagRegistry: Invalid class tag "${tag}"`)
+    }
+    const owner = this.owners.get(tag)
+    if (owner && owner !== ctor) {
+      throw new Error(`ClassTagRegistry: Tag "${tag}" is already registered to ${owner.name || 'another class'}`)
+    }
+    const previous = this.registered.get(ctor)
+    if (previous !== undefined) {
+      this.owners.delete(previous)
+    }
+    this.registered.set(ctor, tag)
+    this.owners.set(tag, ctor)
+  }
+
+  unregister(ctor: Constructor): boolean {
+    const tag = this.registered.get(ctor)
+    if (tag === undefined) return false
+    this.registered.delete(ctor)
+    this.owners.delete(tag)
+    return true
+  }
+
+  /**
+   * Registered tag of a class, if any
+   */
+  getRegisteredTag(ctor: Constructor): string | undefined {
+    return this.registered.get(ctor)
+  }
+
+  /**
+   * Class a tag was registered to, if any
+   */
+  getRegisteredClass(tag: string): Function | undefined {
+    return this.owners.get(tag)
+  }
+
+  /**
+   * Registered tag of an object's class; undefined for plain objects and unregistered classes
+   */
+  registeredTagOfInstance(obj: object): string | undefined {
+    const proto: unknown = Object.getPrototypeOf(obj)
+    if (proto === null || proto === Object.prototype) {
+      return undefined
+    }
+    const ctor = (proto as { constructor?: unknown }).constructor
+    return typeof ctor === 'function' ? this.registered.get(ctor) : undefined
+  }
+
+  /**
+   * Tag of a class: the registered one, otherwise its name and a per-process sequence number
+   */
+  tagOf(ctor: Function): string {
+    const registered = this.registered.get(ctor)
+    if (registered !== undefined) return registered
+
+    let tag = this.generated.get(ctor)
+    if (tag === undefined) {
+      const name = ctor.name || 'anonymous'
+      const count = this.nameCounts.get(name) ?? 0
+      this.nameCounts.set(name, count + 1)
+      tag = `${name}#${count}`
+      this.generated.set(ctor, tag)
+    }
+    return tag
+  }
+
+  /**
+   * Tag of an object's class; null for plain and null-prototype objects
+   */
+  tagOfInstance(obj: object): string | null {
+    const proto: unknown = Object.getPrototypeOf(obj)
+    if (proto === null || proto === Object.prototype) {
+      return null
+    }
+    const ctor = (proto as { constructor?: unknown }).constructor
+    // Objects created from a bare prototype inherit Object as their constructor
+    return typeof ctor === 'function' && ctor !== Object ? this.tagOf(ctor) : null
+  }
+}
+
+// Global instance
+export const globalClassTagRegistry = new ClassTagRegistry()
@@ -0,0 +1,171 @@
+/**
+ * Eviction policies for bounded TurboMaps
+ */
+
+/**
+ * Supported eviction policy names
+ */
+export type EvictionPolicyName = 'lru' | 'lfu' | 'fifo'
+
+/**
+ * Eviction policy interface, operating on serialized keys
+ */
+export interface EvictionPolicy {
+  readonly name: EvictionPolicyName
+  recordInsert(key: string): void
+  recordAccess(key: string): void
+  recordRemove(key: string): void
+  selectVictim(): string | undefined
+  clear(): void
+}
+
+/**
+ * Least recently used: reads and writes both refresh an entry
+ */
+export class LRUEvictionPolicy implements EvictionPolicy {
+  readonly name = 'lru'
+  private order = new Map<string, true>()
+
+  recordInsert(key: string): void {
+    this.order.delete(key)
+    this.order.set(key, true)
+  }
+
+  recordAccess(key: string): void {
+    if (this.order.delete(key)) {
+      this.order.set(key, true)
+    }
+  }
+
+  recordRemove(key: string): void {
+    this.order.delete(key)
+  }
+
+  selectVictim(): string | undefined {
+    return this.order.keys().next().value
+  }
+
+  clear(): void {
+    this.order.clear()
+  }
+}
+
+/**
+ * First in, first out: overwriting an entry keeps its original position
+ */
+export class FIFOEvictionPolicy implements EvictionPolicy {
+  readonly name = 'fifo'
+  private order = new Map<string, true>()
+
+  recordInsert(key: string): void {
+    if (!this.order.has(key)) {
+      this.order.set(key, true)
+    }
+  }
+
+  recordAccess(_key: string): void {
+    // Access order is irrelevant for FIFO
+  }
+
+  recordRemove(key: string): void {
+    this.order.delete(key)
+  }
+
+  selectVictim(): string | undefined {
+    return this.order.keys().next().value
+  }
+
+  clear(): void {
+    this.order.clear()
+  }
+}
+
+/**
+ * Least frequently used with O(1) bookkeeping; ties go to the oldest entry
+ */
+export class LFUEvictionPolicy implements EvictionPolicy {
+  readonly name = 'lfu'
+  private frequencies = new Map<string, number>()
+  private buckets = new Map<number, Set<string>>()
+  private minFrequency = 0
+
+  recordInsert(key: string): void {
+    if (this.frequencies.has(key)) {
+      this.recordAccess(key)
+      return
+    }
+    this.frequencies.set(key, 1)
+    this.getBucket(1).add(key)
+    this.minFrequency = 1
+  }
+
+  recordAccess(key: string): void {
+    const frequency = this.frequencies.get(key)
+    if (frequency === undefined) return
+
+    const bucket = this.buckets.get(frequency)
+    bucket?.delete(key)
+    if (bucket && bucket.size === 0) {
+      this.buckets.delete(frequency)
+      if (this.minFrequency === frequency) {
+        this.minFrequency = frequency + 1
+      }
+    }
+
+    this.frequencies.set(key, frequency + 1)
+    this.getBucket(frequency + 1).add(key)
+  }
+
+  recordRemove(key: string): void {
+    const frequency = this.frequencies.get(key)
+    if (frequency === undefined) return
+
+    this.frequencies.delete(key)
+    const bucket = this.buckets.get(frequency)
+    bucket?.delete(key)
+    if (bucket && bucket.size === 0) {
+      this.buckets.delete(frequency)
+      if (this.minFrequency === frequency) {
+        this.recomputeMinFrequency()
+      }
+    }
+  }
+
+  selectVictim(): string | undefined {
+    return this.buckets.get(this.minFrequency)?.values().next().value
+  }
+
+  clear(): void {
+    this.frequencies.clear()
+    this.buckets.clear()
+    this.minFrequency = 0
+  }
+
+  private getBucket(frequency: number): Set<string> {
+    let bucket = this.buckets.get(frequency)
+    if (!bucket) {
+      bucket = new Set<string>()
+      this.buckets.set(frequency, bucket)
+    }
+    return bucket
+  }
+
+  private recomputeMinFrequency(): void {
+    this.minFrequency = this.buckets.size > 0 ? Math.min(...this.buckets.keys()) : 0
+  }
+}
+
+/**
+ * Create an eviction policy by name
+ */
+export function createEvictionPolicy(name: EvictionPolicyName): EvictionPolicy {
+  switch (name) {
+    case 'lfu':
+      return new LFUEvictionPolicy()
+    case 'fifo':
+      return new FIFOEvictionPolicy()
+    case 'lru':
+    default:
+      return new LRUEvictionPolicy()
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Injectivity checks for serialized keys
+ */
+
+import { bytesToHex } from '../utils/BinaryData'
+import { globalSymbolRegistry, type SymbolIdentityMode } from '../utils/SymbolRegistry'
+
+/**
+ * Thrown in strict mode when two keys that should differ serialize to the same string
+ */
+export class KeyCollisionError extends Error {
+  constructor(readonly serializedKey: string) {
+    super(`AdaptiveSerializer: Distinct keys serialized to ${serializedKey}`)
+    this.name = 'KeyCollisionError'
+  }
+}
+
+/**
+ * Thrown when a key cannot be serialized; such keys are rejected rather than given a
+ * serialization that another key could share
+ */
+export class KeySerializationError extends Error {
+  constructor(readonly keyType: string) {
+    super(`AdaptiveSerializer: Cannot serialize key of type ${keyType}`)
+    this.name = 'KeySerializationError'
+  }
+}
+
+/**
+ * Hooks connecting the reference model to a serializer's configuration
+ */
+export interface CanonicalFormOptions {
+  // Class tag of an instance, or null when it matches plain objects
+  classTagOf: (obj: object) => string | null
+  symbolIdentity: SymbolIdentityMode
+  // Serialized form of values the model leaves to their strategy, or null for built-in values
+  opaque: (value: unknown) => string | null
+  maxDepth: number
+}
+
+type CanonicalForm = null | string | number | boolean | CanonicalForm[]
+
+/**
+ * Reference description of a key, built from plain JSON values so its encoding cannot collide.
+ * Two keys have equal forms exactly when they are meant to be the same key.
+ */
+export function canonicalForm(value: unknown, options: CanonicalFormOptions, depth = 0, path = new Set<object>()): CanonicalForm {
+  if (depth > options.maxDepth) return ['maxDepth']
+
+  const opaque = options.opaque(value)
+  if (opaque !== null) return ['opaque', opaque]
+
+  switch (typeof value) {
+    case 'string':
+      return ['string', value]
+    // -0 and 0 are the same key, as in Map
+    case 'number':
+      return ['number', String(value)]
+    case 'boolean':
+      return ['boolean', value]
+    case 'bigint':
+      return ['bigint', value.toString()]
+    case 'undefined':
+      return ['undefined']
+    // Registered symbols are matched by their key, others as the identity mode says
+    case 'symbol': {
+      const globalKey = Symbol.keyFor(value)
+      if (globalKey !== undefined) return ['symbol', globalKey]
+      if (options.symbolIdentity === 'description') return ['localSymbol', value.description ?? null]
+      if (options.symbolIdentity === 'identity') return ['localSymbol', globalSymbolRegistry.identify(value)]
+      return ['localSymbol']
+    }
+    case 'function':
+      return ['function', value.name || 'anonymous', value.length]
+  }
+  if (value === null) return null
+
+  const obj = value as object
+  if (path.has(obj)) return ['circular']
+  path.add(obj)
+  try {
+    const child = (item: unknown) => canonicalForm(item, options, depth + 1, path)
+    const sortedForms = (items: CanonicalForm[]) => items.map(item => JSON.stringify(item)).sort()
+
+    if (obj instanceof Date) return ['date', String(obj.getTime())]
+    if (obj instanceof RegExp) return ['regexp', obj.toString()]
+    if (obj instanceof Error) return ['error', obj.name, obj.message]
+    if (obj instanceof URL) return ['url', obj.href]
+    if (obj instanceof ArrayBuffer) return ['arrayBuffer', bytesToHex(new Uint8Array(obj))]
+    if (obj instanceof DataView) {
+      return ['dataView', bytesToHex(new Uint8Array(obj.buffer, obj.byteOffset, obj.byteLength))]
+    }
+    if (ArrayBuffer.isView(obj)) {
+      const array = obj as unknown as ArrayLike<number | bigint> & { [Symbol.toStringTag]: string }
+      return ['typedArray', array[Symbol.toStringTag], Array.from(array, String)]
+    }
+    if (obj instanceof Map) {
+      return ['map', sortedForms(Array.from(obj, ([key, item]) => [child(key), child(item)]))]
+    }
+    if (obj instanceof Set) {
+      return ['set', sortedForms(Array.from(obj, child))]
+    }
+    if (Array.isArray(obj)) {
+      const items: CanonicalForm[] = []
+      for (let i = 0; i < obj.length; i++) {
+        items.push(i in obj ? child(obj[i]) : ['hole'])
+      }
+      return ['array', items]
+    }
+    const fields = Object.keys(obj).sort().map(key => [key, child((obj as Record<string, unknown>)[key])])
+    return ['object', options.classTagOf(obj), fields]
+  } finally {
+    path.delete(obj)
+  }
+}
+
+/**
+ * Remembers the canonical form behind every serialized key and rejects a second form
+ */
+export class InjectivityGuard {
+  private forms = new Map<string, string>()
+
+  check(value: unknown, serialized: string, options: CanonicalFormOptions): void {
+    const form = JSON.stringify(canonicalForm(value, options))
+    const previous = this.forms.get(serialized)
+    if (previous !== undefined && previous !== form) {
+      throw new KeyCollisionError(serialized)
+    }
+    this.forms.set(serialized, form)
+  }
+
+  clear(): void {
+    this.forms.clear()
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Protection against keys mutated after insertion
+ */
+
+/**
+ * What a map does about keys changed after insertion:
+ * - none: nothing; a mutated key strands its entry
+ * - freeze: deep-freeze keys on insertion
+ * - snapshot: store a structured clone of each key
+ * - detect: re-key mutated entries in compact() and report them in debug()
+ */
+export type KeyMutationMode = 'none' | 'freeze' | 'snapshot' | 'detect'
+
+/**
+ * Entry whose key no longer serializes to the string it is stored under
+ */
+export interface KeyDrift<K> {
+  key: K
+  serializedKey: string
+  currentSerializedKey: string
+}
+
+/**
+ * Freeze a key and everything reachable through its properties and collection members.
+ * Typed arrays cannot be frozen, and Map and Set contents stay mutable through their methods.
+ */
+export function deepFreeze<T>(value: T, visited: WeakSet<object> = new WeakSet()): T {
+  if ((typeof value !== 'object' && typeof value !== 'function') || value === null) {
+    return value
+  }
+  const obj = value as object
+  if (visited.has(obj) || ArrayBuffer.isView(obj)) {
+    return value
+  }
+  visited.add(obj)
+
+  if (obj instanceof Map) {
+    for (const [key, item] of obj) {
+      deepFreeze(key, visited)
+      deepFreeze(item, visited)
+    }
+  } else if (obj instanceof Set) {
+    for (const item of obj) {
+      deepFreeze(item, visited)
+    }
+  }
+  for (const key of Object.keys(obj)) {
+    deepFreeze((obj as Record<string, unknown>)[key], visited)
+  }
+  Object.freeze(obj)
+  return value
+}
+
+/**
+ * Structured clone of a key, keeping the class of the top-level object. Keys that cannot be
+ * cloned, such as ones holding functions or symbols, are kept as they are.
+ */
+export function snapshotKey<T>(key: T): T {
+  if (typeof key !== 'object' || key === null) {
+    return key
+  }
+  try {
+    const copy = structuredClone(key)
+    const proto: unknown = Object.getPrototypeOf(key)
+    if (Object.getPrototypeOf(copy) !== proto) {
+      Object.setPrototypeOf(copy, proto as object | null)
+    }
+    return copy
+  } catch (error) {
+    console.warn('EnhancedTurboMap: Key cannot be snapshotted, storing it as is:', error)
+    return key
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Identity protocol for keys that define their own equality
+ */
+
+import { TypeUtils } from '../utils/TypeUtils'
+
+/**
+ * Well-known symbols a key can implement to control how it is matched
+ */
+const hashSymbol: unique symbol = Symbol.for('turbo-map.hash') as never
+const equalsSymbol: unique symbol = Symbol.for('turbo-map.equals') as never
+
+export const TurboMap = {
+  hash: hashSymbol,
+  equals: equalsSymbol
+} as const
+
+/**
+ * Key whose identity is the value returned by its hash method
+ */
+export interface TurboMapHashable {
+  [TurboMap.hash](): unknown
+}
+
+/**
+ * Key compared with other instances of its class through its equals method
+ *
+ * Without a hash, every instance of the class shares one bucket, so finding a key compares it
+ * with each stored instance in turn: O(n). Implement TurboMap.hash as well for large maps.
+ */
+export interface TurboMapEquatable {
+  [TurboMap.equals](other: unknown): boolean
+}
+
+type ProtocolKey = Partial<TurboMapHashable & TurboMapEquatable>
+
+/**
+ * Check whether a value implements either protocol method
+ */
+export function hasKeyProtocol(value: unknown): value is object {
+  if ((typeof value !== 'object' && typeof value !== 'function') || value === null) {
+    return false
+  }
+  const key = value as ProtocolKey
+  return typeof key[TurboMap.hash] === 'function' || typeof key[TurboMap.equals] === 'function'
+}
+
+/**
+ * Assigns stable identities to protocol keys
+ *
+ * Keys are bucketed by class and hash. With equals, each bucket keeps weak references to
+ * the instances registered as stored keys, so an equal instance reuses the identity of a
+ * live one. Lookups only compare against registered instances and never join a bucket.
+ */
+export class KeyIdentityRegistry {
+  private groups = new Map<string, Array<{ ref: WeakRef<object>; id: number }>>()
+  private nextId = 0
+
+  identify(key: object, serializeHash: (hash: unknown) => string, register = false): string {
+    const protocol = key as ProtocolKey
+    const hash = protocol[TurboMap.hash]
+    const equals = protocol[TurboMap.equals]
+    const typeName = TypeUtils.escapeKeyText((key as { constructor?: { name?: string } }).constructor?.name || 'Object', ':')
+    const bucket = typeof hash === 'function'
+      ? `${typeName}:${serializeHash(hash.call(key))}`
+      : typeName
+
+    if (typeof equals !== 'function') {
+      return `[Key:${bucket}]`
+    }
+
+    let id: number | undefined
+    let registered = false
+    const live: Array<{ ref: WeakRef<object>; id: number }> = []
+    for (const member of this.groups.get(bucket) ?? []) {
+      const other = member.ref.deref()
+      if (!other) continue
+      live.push(member)
+      if (other === key) {
+        registered = true
+        id = member.id
+      } else if (id === undefined && equals.call(key, other)) {
+        id = member.id
+      }
+    }
+
+    // An unmatched lookup gets an identity of its own, which no stored key has
+    if (id === undefined) {
+      id = this.nextId++
+    }
+    // Every equal stored instance joins the group, so the identity lives as long as any of them
+    if (register && !registered) {
+      live.push({ ref: new WeakRef(key), id })
+    }
+    if (live.length > 0) {
+      this.groups.set(bucket, live)
+    } else {
+      this.groups.delete(bucket)
+    }
+    return `[Key:${bucket}#${id}]`
+  }
+}
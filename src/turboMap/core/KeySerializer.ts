@@ -0,0 +1,55 @@
+/**
+ * Key serialization shared by the TurboMap collections
+ */
+
+import { globalSerializer, type SerializeOptions } from './Serializer'
+import { globalErrorRecovery, ErrorType } from '../utils/ErrorRecovery'
+import { KeySerializationError } from './KeyInjectivity'
+import type { SymbolIdentityMode } from '../utils/SymbolRegistry'
+
+/**
+ * Key identity options, matching the ones of createEnhancedTurboMap
+ */
+export interface KeySerializerOptions<K> {
+  enableAdaptiveSerialization?: boolean
+  distinguishClasses?: boolean
+  symbolIdentity?: SymbolIdentityMode
+  keyBy?: ((key: K) => unknown) | null
+}
+
+/**
+ * Serializes the keys of one collection; registerKeys is passed when the key is being stored
+ */
+export type KeySerializer<K> = (key: K, options?: Pick<SerializeOptions, 'registerKeys'>) => string
+
+/**
+ * Serialize a key the way every TurboMap collection compares it; the options only apply
+ * to adaptive serialization
+ */
+export function serializeKey(key: unknown, adaptive: boolean = true, options: SerializeOptions = {}): string {
+  return adaptive ? globalSerializer.serialize(key, options) : JSON.stringify(key)
+}
+
+/**
+ * Create a key serializer with error recovery for a collection
+ */
+export function createKeySerializer<K>(options: KeySerializerOptions<K> = {}): KeySerializer<K> {
+  const adaptive = options.enableAdaptiveSerialization ?? true
+  const keyBy = options.keyBy ?? null
+  const serializeOptions: SerializeOptions = {
+    distinguishClasses: options.distinguishClasses ?? false,
+    symbolIdentity: options.symbolIdentity ?? 'collapse'
+  }
+
+  return (key: K, callOptions?: Pick<SerializeOptions, 'registerKeys'>): string => {
+    const identity = keyBy ? keyBy(key) : key
+    return globalErrorRecovery.executeWithRecovery(
+      () => serializeKey(identity, adaptive, callOptions ? { ...serializeOptions, ...callOptions } : serializeOptions),
+      () => {
+        throw new KeySerializationError(typeof identity)
+      },
+      'serialize',
+      ErrorType.SERIALIZATION
+    )
+  }
+}
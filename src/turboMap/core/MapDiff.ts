@@ -0,0 +1,187 @@
+/**
+ * Differences between maps and the patches that replay them
+ */
+
+import { globalTypedCodec, type TypedValue } from './TypedCodec'
+
+/**
+ * Entries added, removed and changed from one map to another
+ */
+export interface TurboMapDiff<K, V> {
+  added: [K, V][]
+  removed: [K, V][] // with the values they had
+  changed: [K, V, V][] // key, old value, new value
+}
+
+/**
+ * Serializable form of a TurboMapDiff
+ */
+export interface TurboMapPatch {
+  format: 'turbo-map-patch'
+  version: 1
+  added: [TypedValue, TypedValue][]
+  removed: [TypedValue, TypedValue][]
+  changed: [TypedValue, TypedValue, TypedValue][]
+}
+
+/**
+ * Structural equality of two values
+ *
+ * Primitives compare by SameValueZero, like Map keys. Objects must share a prototype, so
+ * class instances never equal plain objects or instances of other classes. Promises, weak
+ * collections, functions and other objects without inspectable contents compare by identity.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return deepEqual(a, b, new Map())
+}
+
+type Comparing = Map<object, Set<object>>
+
+function deepEqual(a: unknown, b: unknown, comparing: Comparing): boolean {
+  // SameValueZero, like Map keys
+  if (a === b || (a !== a && b !== b)) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false
+
+  // A pair already being compared further up is assumed equal, which ends cycles
+  let partners = comparing.get(a)
+  if (partners?.has(b)) return true
+  if (!partners) {
+    partners = new Set()
+    comparing.set(a, partners)
+  }
+  partners.add(b)
+  try {
+    return contentsEqual(a, b, comparing)
+  } finally {
+    partners.delete(b)
+  }
+}
+
+function contentsEqual(a: object, b: object, comparing: Comparing): boolean {
+  if (a instanceof Promise || a instanceof WeakMap || a instanceof WeakSet || a instanceof WeakRef) {
+    return false
+  }
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), (b as Date).getTime()) && ownPropertiesEqual(a, b, comparing)
+  }
+  if (a instanceof RegExp) {
+    return a.source === (b as RegExp).source && a.flags === (b as RegExp).flags && ownPropertiesEqual(a, b, comparing)
+  }
+  if (a instanceof Error) {
+    return a.name === (b as Error).name && a.message === (b as Error).message && ownPropertiesEqual(a, b, comparing)
+  }
+  if (typeof URL !== 'undefined' && a instanceof URL) {
+    return a.href === (b as URL).href
+  }
+  if (a instanceof Number || a instanceof String || a instanceof Boolean || a instanceof BigInt || a instanceof Symbol) {
+    return Object.is(a.valueOf(), (b as typeof a).valueOf()) && ownPropertiesEqual(a, b, comparing)
+  }
+  if (a instanceof ArrayBuffer || ArrayBuffer.isView(a)) {
+    return bytesEqual(a, b as ArrayBuffer | ArrayBufferView)
+  }
+  if (a instanceof Map) {
+    return mapsEqual(a, b as Map<unknown, unknown>, comparing)
+  }
+  if (a instanceof Set) {
+    return setsEqual(a, b as Set<unknown>, comparing)
+  }
+  if (Array.isArray(a) && a.length !== (b as unknown[]).length) {
+    return false
+  }
+  return ownPropertiesEqual(a, b, comparing)
+}
+
+function ownPropertiesEqual(a: object, b: object, comparing: Comparing): boolean {
+  const keys = Object.keys(a)
+  if (keys.length !== Object.keys(b).length) return false
+  return keys.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], comparing)
+  )
+}
+
+function bytesEqual(a: ArrayBuffer | ArrayBufferView, b: ArrayBuffer | ArrayBufferView): boolean {
+  const toBytes = (data: ArrayBuffer | ArrayBufferView) => ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data)
+  const left = toBytes(a)
+  const right = toBytes(b)
+  return left.length === right.length && left.every((byte, i) => byte === right[i])
+}
+
+/**
+ * Members are matched by identity first, then by structure, each member of b at most once
+ */
+function setsEqual(a: Set<unknown>, b: Set<unknown>, comparing: Comparing): boolean {
+  if (a.size !== b.size) return false
+  const unmatched = Array.from(b).filter(item => !a.has(item))
+  for (const item of a) {
+    if (b.has(item)) continue
+    const index = unmatched.findIndex(candidate => deepEqual(item, candidate, comparing))
+    if (index === -1) return false
+    unmatched.splice(index, 1)
+  }
+  return true
+}
+
+function mapsEqual(a: Map<unknown, unknown>, b: Map<unknown, unknown>, comparing: Comparing): boolean {
+  if (a.size !== b.size) return false
+  const unmatched = Array.from(b).filter(([key]) => !a.has(key))
+  for (const [key, value] of a) {
+    if (b.has(key)) {
+      if (!deepEqual(value, b.get(key), comparing)) return false
+      continue
+    }
+    const index = unmatched.findIndex(([otherKey, otherValue]) =>
+      deepEqual(key, otherKey, comparing) && deepEqual(value, otherValue, comparing)
+    )
+    if (index === -1) return false
+    unmatched.splice(index, 1)
+  }
+  return true
+}
+
+/**
+ * Check whether data looks like a serialized patch rather than a diff
+ */
+export function isTurboMapPatch(data: unknown): data is TurboMapPatch {
+  return typeof data === 'object' && data !== null && (data as { format?: unknown }).format === 'turbo-map-patch'
+}
+
+/**
+ * Encode a diff into the serializable patch format
+ */
+export function encodePatch<K, V>(diff: TurboMapDiff<K, V>): TurboMapPatch {
+  const codec = globalTypedCodec
+  return {
+    format: 'turbo-map-patch',
+    version: 1,
+    added: diff.added.map(([key, value]) => [codec.encode(key), codec.encode(value)]),
+    removed: diff.removed.map(([key, value]) => [codec.encode(key), codec.encode(value)]),
+    changed: diff.changed.map(([key, from, to]) => [codec.encode(key), codec.encode(from), codec.encode(to)])
+  }
+}
+
+/**
+ * Decode a serialized patch back into a diff
+ */
+export function decodePatch(data: unknown): TurboMapDiff<unknown, unknown> {
+  if (!isTurboMapPatch(data) || !Array.isArray(data.added) || !Array.isArray(data.removed) || !Array.isArray(data.changed)) {
+    throw new Error('MapDiff: Not a serialized patch')
+  }
+  if (data.version !== 1) {
+    throw new Error(`MapDiff: Unsupported patch version ${data.version}`)
+  }
+  const decode = (entries: TypedValue[][], length: number): unknown[][] => entries.map(entry => {
+    if (!Array.isArray(entry) || entry.length !== length) {
+      throw new Error('MapDiff: Malformed patch entry')
+    }
+    return entry.map(value => globalTypedCodec.decode(value))
+  })
+  return {
+    added: decode(data.added, 2) as [unknown, unknown][],
+    removed: decode(data.removed, 2) as [unknown, unknown][],
+    changed: decode(data.changed, 3) as [unknown, unknown, unknown][]
+  }
+}
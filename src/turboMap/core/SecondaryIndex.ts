@@ -0,0 +1,99 @@
+/**
+ * Secondary indexes over map values
+ */
+
+/**
+ * Derives the indexed value from an entry
+ */
+export type IndexExtractor<K, V> = (value: V, key: K) => unknown
+
+/**
+ * Index summary reported by debug()
+ */
+export interface SecondaryIndexStats {
+  name: string
+  values: number
+  entries: number
+}
+
+/**
+ * Buckets serialized entry keys by the serialized value an extractor derives from each entry
+ */
+export class SecondaryIndex<K, V> {
+  readonly name: string
+  private extractor: IndexExtractor<K, V>
+  private serializeValue: (value: unknown) => string
+  private buckets = new Map<string, Set<string>>()
+  private entryBuckets = new Map<string, string>()
+
+  constructor(name: string, extractor: IndexExtractor<K, V>, serializeValue: (value: unknown) => string) {
+    this.name = name
+    this.extractor = extractor
+    this.serializeValue = serializeValue
+  }
+
+  /**
+   * Index an entry, moving it out of its previous bucket if the value changed
+   */
+  add(serializedKey: string, key: K, value: V): void {
+    let bucketKey: string
+    try {
+      bucketKey = this.serializeValue(this.extractor(value, key))
+    } catch (error) {
+      // An entry the extractor cannot handle is simply left out of the index
+      this.remove(serializedKey)
+      console.warn(`SecondaryIndex: Extractor for "${this.name}" failed:`, error)
+      return
+    }
+
+    const previous = this.entryBuckets.get(serializedKey)
+    if (previous === bucketKey) return
+    if (previous !== undefined) {
+      this.removeFromBucket(previous, serializedKey)
+    }
+
+    let bucket = this.buckets.get(bucketKey)
+    if (!bucket) {
+      bucket = new Set()
+      this.buckets.set(bucketKey, bucket)
+    }
+    bucket.add(serializedKey)
+    this.entryBuckets.set(serializedKey, bucketKey)
+  }
+
+  remove(serializedKey: string): void {
+    const previous = this.entryBuckets.get(serializedKey)
+    if (previous === undefined) return
+    this.entryBuckets.delete(serializedKey)
+    this.removeFromBucket(previous, serializedKey)
+  }
+
+  /**
+   * Serialized keys of the entries whose indexed value matches
+   */
+  get(indexValue: unknown): ReadonlySet<string> {
+    return this.buckets.get(this.serializeValue(indexValue)) ?? new Set()
+  }
+
+  clear(): void {
+    this.buckets.clear()
+    this.entryBuckets.clear()
+  }
+
+  getStats(): SecondaryIndexStats {
+    return {
+      name: this.name,
+      values: this.buckets.size,
+      entries: this.entryBuckets.size
+    }
+  }
+
+  private removeFromBucket(bucketKey: string, serializedKey: string): void {
+    const bucket = this.buckets.get(bucketKey)
+    if (!bucket) return
+    bucket.delete(serializedKey)
+    if (bucket.size === 0) {
+      this.buckets.delete(bucketKey)
+    }
+  }
+}
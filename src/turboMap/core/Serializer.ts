@@ -5,6 +5,11 @@
 import { TypeUtils } from '../utils/TypeUtils'
 import { globalFastHasher } from '../utils/FastHash'
 import { TieredCacheManager } from './CacheManager'
+import { KeyIdentityRegistry, hasKeyProtocol } from './KeyProtocol'
+import { globalClassTagRegistry, type ClassTagRegistry } from './ClassTagRegistry'
+import { InjectivityGuard, KeySerializationError, type CanonicalFormOptions } from './KeyInjectivity'
+import { bytesToHex } from '../utils/BinaryData'
+import { globalSymbolRegistry, type SymbolIdentityMode } from '../utils/SymbolRegistry'
 
 /**
  * Serialization context for tracking visited objects
@@ -14,6 +19,26 @@ export interface SerializationContext {
   cache: TieredCacheManager<string> | undefined
   depth: number
   maxDepth: number
+  distinguishClasses?: boolean
+  symbolIdentity?: SymbolIdentityMode
+  registerKeys?: boolean
+  // Shared by every level of one call; cleared when the result must not be cached
+  result?: { cacheable: boolean }
+}
+
+/**
+ * Per-call serialization options
+ */
+export interface SerializeOptions {
+  // Prefix class instances with their class tag, so equal fields of different classes differ
+  distinguishClasses?: boolean
+  // How symbols not registered with Symbol.for() are told apart; 'collapse' by default
+  symbolIdentity?: SymbolIdentityMode
+  // Ignore a cached result, e.g. for an object that may have been mutated, and cache the new one
+  refreshCache?: boolean
+  // The value is being stored as a key: protocol keys with equals are registered, so equal
+  // instances looked up later share their identity
+  registerKeys?: boolean
 }
 
 /**
@@ -31,40 +56,112 @@ export interface SerializationStrategy {
  */
 export class AdaptiveSerializer {
   private strategies = new Map<string, SerializationStrategy>()
+  private sortedStrategies: SerializationStrategy[] | null = null
   private strategyStats = new Map<string, { usage: number, avgTime: number }>()
   private cache: TieredCacheManager<string> | undefined
   private enableMetrics: boolean
   private objectIdMap = new WeakMap<object, string>()
+  private keyIdentities = new KeyIdentityRegistry()
+  private classTags: ClassTagRegistry
+  private builtInStrategies = new Set<SerializationStrategy>()
+  private strictGuard: InjectivityGuard | null = null
 
-  constructor(enableCache = true, enableMetrics = true) {
+  constructor(enableCache = true, enableMetrics = true, classTags: ClassTagRegistry = globalClassTagRegistry) {
     this.cache = enableCache ? new TieredCacheManager<string>({
       l1CacheSize: 1000,
       l2CacheSize: 5000,
       promoteThreshold: 3
     }) : undefined
     this.enableMetrics = enableMetrics
+    this.classTags = classTags
     this.initializeStrategies()
+    this.builtInStrategies = new Set(this.strategies.values())
   }
 
   /**
    * Initialize built-in serialization strategies
    */
   private initializeStrategies(): void {
+    // Key protocol strategy (ahead of every built-in strategy)
+    this.addStrategy({
+      name: 'keyProtocol',
+      priority: 150,
+      canHandle: (obj) => hasKeyProtocol(obj),
+      serialize: (obj, context) => {
+        // A lookup's identity changes once an equal key is stored, so it is not cached
+        if (!context.registerKeys && context.result) {
+          context.result.cacheable = false
+        }
+        return this.keyIdentities.identify(obj as object, hash => this.serializeValue(hash, context), context.registerKeys)
+      }
+    })
+
     // Primitive strategy
     this.addStrategy({
       name: 'primitive',
       priority: 100,
       canHandle: (obj) => TypeUtils.isPrimitive(obj),
+      serialize: (obj, context) => this.serializePrimitive(obj, context.symbolIdentity)
+    })
+
+    // Built-in collection and binary strategies (ahead of simpleObject, which would see
+    // typed arrays as index-keyed objects and URLs as empty ones)
+    this.addStrategy({
+      name: 'map',
+      priority: 98,
+      canHandle: (obj) => obj instanceof Map,
+      serialize: (obj, context) => {
+        const pairs = Array.from(obj as Map<unknown, unknown>, ([key, value]) =>
+          `${this.serializeValue(key, context)}=>${this.serializeValue(value, context)}`
+        )
+        return `[Map:{${pairs.sort().join(',')}}]`
+      }
+    })
+
+    this.addStrategy({
+      name: 'set',
+      priority: 98,
+      canHandle: (obj) => obj instanceof Set,
+      serialize: (obj, context) => {
+        const items = Array.from(obj as Set<unknown>, item => this.serializeValue(item, context))
+        return `[Set:[${items.sort().join(',')}]]`
+      }
+    })
+
+    this.addStrategy({
+      name: 'typedArray',
+      priority: 98,
+      canHandle: (obj) => ArrayBuffer.isView(obj) && !(obj instanceof DataView),
+      serialize: (obj) => {
+        const array = obj as unknown as ArrayLike<number | bigint> & { [Symbol.toStringTag]: string }
+        return `[${array[Symbol.toStringTag]}:${Array.from(array, String).join(',')}]`
+      }
+    })
+
+    this.addStrategy({
+      name: 'arrayBuffer',
+      priority: 98,
+      canHandle: (obj) => obj instanceof ArrayBuffer,
+      serialize: (obj) => `[ArrayBuffer:${bytesToHex(new Uint8Array(obj as ArrayBuffer))}]`
+    })
+
+    this.addStrategy({
+      name: 'dataView',
+      priority: 98,
+      canHandle: (obj) => obj instanceof DataView,
       serialize: (obj) => {
-        if (obj === null) return 'null'
-        if (obj === undefined) return 'undefined'
-        if (typeof obj === 'string') return `"${obj}"`
-        if (typeof obj === 'symbol') return this.serializeSymbol(obj)
-        if (typeof obj === 'bigint') return `${obj}n`
-        return String(obj)
+        const view = obj as DataView
+        return `[DataView:${bytesToHex(new Uint8Array(view.buffer, view.byteOffset, view.byteLength))}]`
       }
     })
 
+    this.addStrategy({
+      name: 'url',
+      priority: 98,
+      canHandle: (obj) => obj instanceof URL,
+      serialize: (obj) => `[URL:${TypeUtils.escapeKeyText((obj as URL).href)}]`
+    })
+
     // Simple object strategy (high priority for JSON-style output)
     this.addStrategy({
       name: 'simpleObject',
@@ -77,11 +174,11 @@ export class AdaptiveSerializer {
             const value = (obj as Record<string, unknown>)[key]
             // Use serializeValue for nested values, but handle circular references properly
             const serializedValue = this.serializeValue(value, context)
-            return `"${key}":${serializedValue}`
+            return `${TypeUtils.quoteString(key)}:${serializedValue}`
           })
-          return `{${pairs.join(',')}}`
+          return `${this.classPrefix(obj as object, context)}{${pairs.join(',')}}`
         } catch {
-          return this.fallbackSerialize(obj)
+          return this.fallbackSerialize(obj, context.symbolIdentity)
         }
       }
     })
@@ -95,13 +192,8 @@ export class AdaptiveSerializer {
                obj.length <= 10 && 
                obj.every(item => TypeUtils.isPrimitive(item))
       },
-      serialize: (obj) => {
-        const items = (obj as unknown[]).map((item: unknown) => {
-          if (item === null) return 'null'
-          if (item === undefined) return 'undefined'
-          if (typeof item === 'string') return `"${item}"`
-          return String(item)
-        })
+      serialize: (obj, context) => {
+        const items = (obj as unknown[]).map((item: unknown) => this.serializePrimitive(item, context.symbolIdentity))
         return `[${items.join(',')}]`
       }
     })
@@ -121,7 +213,7 @@ export class AdaptiveSerializer {
       name: 'regexp',
       priority: 85,
       canHandle: (obj) => obj instanceof RegExp,
-      serialize: (obj) => `[RegExp:${(obj as RegExp).toString()}]`
+      serialize: (obj) => `[RegExp:${TypeUtils.escapeKeyText((obj as RegExp).toString())}]`
     })
 
     // Error strategy
@@ -129,7 +221,10 @@ export class AdaptiveSerializer {
       name: 'error',
       priority: 85,
       canHandle: (obj) => obj instanceof Error,
-      serialize: (obj) => `[Error:${(obj as Error).name}:${(obj as Error).message}]`
+      serialize: (obj) => {
+        const error = obj as Error
+        return `[Error:${TypeUtils.escapeKeyText(error.name, ':')}:${TypeUtils.escapeKeyText(error.message)}]`
+      }
     })
 
     // Function strategy
@@ -137,7 +232,7 @@ export class AdaptiveSerializer {
       name: 'function',
       priority: 80,
       canHandle: (obj) => typeof obj === 'function',
-      serialize: (obj) => `[Function:${(obj as Function).name || 'anonymous'}:${(obj as Function).length}]`
+      serialize: (obj) => `[Function:${TypeUtils.escapeKeyText((obj as Function).name || 'anonymous')}:${(obj as Function).length}]`
     })
 
     // Complex object strategy (fallback for complex objects)
@@ -156,9 +251,9 @@ export class AdaptiveSerializer {
         const result = globalFastHasher.fastHash(obj)
         return result !== null
       },
-      serialize: (obj) => {
-        const result = globalFastHasher.fastHash(obj)
-        return result || this.fallbackSerialize(obj)
+      serialize: (obj, context) => {
+        const result = globalFastHasher.fastHash(obj, { symbolIdentity: context.symbolIdentity ?? 'collapse' })
+        return result || this.fallbackSerialize(obj, context.symbolIdentity)
       }
     })
   }
@@ -169,20 +264,80 @@ export class AdaptiveSerializer {
   addStrategy(strategy: SerializationStrategy): void {
     try {
       this.strategies.set(strategy.name, strategy)
+      this.sortedStrategies = null
       this.strategyStats.set(strategy.name, { usage: 0, avgTime: 0 })
     } catch (error) {
       console.warn('AdaptiveSerializer: Error adding strategy:', error)
     }
   }
 
+  /**
+   * Name of the strategy that would serialize a value, e.g. 'date' or 'simpleObject'
+   */
+  getStrategyName(obj: unknown): string | null {
+    return this.findStrategy(obj)?.name ?? null
+  }
+
+  /**
+   * Strict mode checks every serialized key against a reference model and throws a
+   * KeyCollisionError when two different keys share a serialization. It remembers every
+   * key it sees, so it is meant for tests.
+   */
+  setStrictMode(enabled: boolean): void {
+    this.strictGuard = enabled ? new InjectivityGuard() : null
+  }
+
+  isStrictMode(): boolean {
+    return this.strictGuard !== null
+  }
+
+  /**
+   * Serialized form of each property of a plain object, as it appears in the object's own
+   * sorted-property serialization; null for values that are not serialized property by property
+   */
+  serializeFields(obj: unknown): Map<string, string> | null {
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj) || obj instanceof Map || obj instanceof Set) {
+      return null
+    }
+    const strategy = this.getStrategyName(obj)
+    if (strategy !== 'simpleObject' && strategy !== 'complex') {
+      return null
+    }
+
+    const context: SerializationContext = {
+      visited: new WeakSet<object>([obj]),
+      cache: this.cache,
+      depth: 1,
+      maxDepth: 50
+    }
+    const fields = new Map<string, string>()
+    for (const key of Object.keys(obj).sort()) {
+      fields.set(key, this.serializeValue((obj as Record<string, unknown>)[key], context))
+    }
+    return fields
+  }
+
   /**
    * Main serialization method
    */
-  serialize(obj: unknown): string {
+  serialize(obj: unknown, options: SerializeOptions = {}): string {
+    const result = this.serializeUnchecked(obj, options)
+    // Outside the recovery below, so a collision reaches the caller
+    this.strictGuard?.check(obj, result, this.canonicalFormOptions(options))
+    return result
+  }
+
+  private serializeUnchecked(obj: unknown, options: SerializeOptions): string {
     try {
+      const distinguishClasses = options.distinguishClasses ?? false
+      const symbolIdentity = options.symbolIdentity ?? 'collapse'
+      // Results depend on the options, so each combination is cached separately
+      const cacheSuffix = `${distinguishClasses ? ':classes' : ''}${symbolIdentity === 'collapse' ? '' : `:${symbolIdentity}`}`
+      const cacheId = (target: object) => `${this.getObjectId(target)}${cacheSuffix}`
+
       // Check cache first
-      if (this.cache && typeof obj === 'object' && obj !== null) {
-        const cached = this.cache.get(this.getObjectId(obj))
+      if (this.cache && !options.refreshCache && typeof obj === 'object' && obj !== null) {
+        const cached = this.cache.get(cacheId(obj))
         if (cached !== undefined) {
           return cached
         }
@@ -193,15 +348,19 @@ export class AdaptiveSerializer {
         visited: new WeakSet<object>(),
         cache: this.cache,
         depth: 0,
-        maxDepth: 50
+        maxDepth: 50,
+        distinguishClasses,
+        symbolIdentity,
+        registerKeys: options.registerKeys ?? false,
+        result: { cacheable: true }
       }
 
       try {
         const result = this.serializeValue(obj, context)
         
         // Cache result if applicable
-        if (this.cache && typeof obj === 'object' && obj !== null) {
-          this.cache.set(this.getObjectId(obj), result)
+        if (this.cache && context.result?.cacheable && typeof obj === 'object' && obj !== null) {
+          this.cache.set(cacheId(obj), result)
         }
 
         return result
@@ -210,7 +369,7 @@ export class AdaptiveSerializer {
       }
     } catch (error) {
       console.warn('AdaptiveSerializer: Serialization error:', error)
-      return this.fallbackSerialize(obj)
+      return this.fallbackSerialize(obj, options.symbolIdentity)
     }
   }
 
@@ -234,10 +393,7 @@ export class AdaptiveSerializer {
       }
 
       // Find and apply best strategy
-      const strategies = Array.from(this.strategies.values())
-        .sort((a, b) => b.priority - a.priority)
-
-      for (const strategy of strategies) {
+      for (const strategy of this.getSortedStrategies()) {
         try {
           if (strategy.canHandle(obj)) {
             const startTime = this.enableMetrics ? performance.now() : 0
@@ -264,11 +420,54 @@ export class AdaptiveSerializer {
         }
       }
 
-      return this.fallbackSerialize(obj)
+      return this.fallbackSerialize(obj, context.symbolIdentity)
     } catch (error) {
       console.warn('AdaptiveSerializer: Error in serializeValue:', error)
-      return this.fallbackSerialize(obj)
+      return this.fallbackSerialize(obj, context.symbolIdentity)
+    }
+  }
+
+  private findStrategy(obj: unknown): SerializationStrategy | null {
+    for (const strategy of this.getSortedStrategies()) {
+      try {
+        if (strategy.canHandle(obj)) {
+          return strategy
+        }
+      } catch {
+        continue
+      }
+    }
+    return null
+  }
+
+  /**
+   * Reference model configuration matching this serializer; protocol keys and custom
+   * strategies define their own equality, so the model takes their output as given
+   */
+  private canonicalFormOptions(options: SerializeOptions): CanonicalFormOptions {
+    const distinguishClasses = options.distinguishClasses ?? false
+    return {
+      classTagOf: (obj) => distinguishClasses ? this.classTags.tagOfInstance(obj) : null,
+      symbolIdentity: options.symbolIdentity ?? 'collapse',
+      opaque: (value) => {
+        const strategy = this.findStrategy(value)
+        return strategy && (strategy.name === 'keyProtocol' || !this.builtInStrategies.has(strategy))
+          ? this.serializeUnchecked(value, options)
+          : null
+      },
+      maxDepth: 50
+    }
+  }
+
+  /**
+   * Strategies ordered by descending priority
+   */
+  private getSortedStrategies(): SerializationStrategy[] {
+    if (!this.sortedStrategies) {
+      this.sortedStrategies = Array.from(this.strategies.values())
+        .sort((a, b) => b.priority - a.priority)
     }
+    return this.sortedStrategies
   }
 
   /**
@@ -284,58 +483,67 @@ export class AdaptiveSerializer {
       if (obj && typeof obj === 'object') {
         const keys = Object.keys(obj as Record<string, unknown>).sort()
         const pairs = keys.map(key => {
-          try {
-            const value = this.serializeValue((obj as Record<string, unknown>)[key], context)
-            return `"${key}":${value}`
-          } catch {
-            return `"${key}":"[SerializationError]"`
-          }
+          const value = this.serializeValue((obj as Record<string, unknown>)[key], context)
+          return `${TypeUtils.quoteString(key)}:${value}`
         })
-        return `{${pairs.join(',')}}`
+        return `${this.classPrefix(obj, context)}{${pairs.join(',')}}`
       }
 
-      return this.fallbackSerialize(obj)
+      return this.fallbackSerialize(obj, context.symbolIdentity)
     } catch {
-      return this.fallbackSerialize(obj)
+      return this.fallbackSerialize(obj, context.symbolIdentity)
     }
   }
 
   /**
-   * Fallback serialization
+   * Class tag prefix for an instance when classes are distinguished, e.g. `<UserId>`
    */
-  private fallbackSerialize(obj: unknown): string {
-    try {
-      if (obj === null) return 'null'
-      if (obj === undefined) return 'undefined'
-      if (typeof obj === 'string') return `"${obj}"`
-      if (typeof obj === 'number') return String(obj)
-      if (typeof obj === 'boolean') return String(obj)
-      if (typeof obj === 'symbol') return this.serializeSymbol(obj)
-      if (typeof obj === 'bigint') return `${obj}n`
-      
-      // Last resort - try JSON.stringify
-      try {
-        return JSON.stringify(obj) || '[UnserializableObject]'
-      } catch {
-        return `[${typeof obj}:${Object.prototype.toString.call(obj)}]`
-      }
-    } catch {
-      return '[CriticalSerializationError]'
-    }
+  private classPrefix(obj: object, context: SerializationContext): string {
+    if (!context.distinguishClasses) return ''
+    const tag = this.classTags.tagOfInstance(obj)
+    return tag === null ? '' : `<${TypeUtils.escapeKeyText(tag)}>`
+  }
+
+  /**
+   * Fallback serialization; primitives keep their tagged form, while objects no strategy
+   * could serialize are rejected, as any generic encoding of them could collide
+   */
+  private fallbackSerialize(obj: unknown, symbolIdentity?: SymbolIdentityMode): string {
+    if (TypeUtils.isPrimitive(obj)) return this.serializePrimitive(obj, symbolIdentity)
+    throw new KeySerializationError(Object.prototype.toString.call(obj).slice(8, -1))
+  }
+
+  /**
+   * Serialize a primitive; strings are JSON-quoted so no other value can produce the same text
+   */
+  private serializePrimitive(obj: unknown, symbolIdentity?: SymbolIdentityMode): string {
+    if (obj === null) return 'null'
+    if (obj === undefined) return 'undefined'
+    if (typeof obj === 'string') return TypeUtils.quoteString(obj)
+    if (typeof obj === 'symbol') return this.serializeSymbol(obj, symbolIdentity)
+    if (typeof obj === 'bigint') return `${obj}n`
+    return String(obj)
   }
 
   /**
    * Serialize Symbol with proper uniqueness handling
    */
-  private serializeSymbol(sym: symbol): string {
+  private serializeSymbol(sym: symbol, symbolIdentity: SymbolIdentityMode = 'collapse'): string {
     try {
       // Check if it's a global symbol (created with Symbol.for())
       const globalKey = Symbol.keyFor(sym)
       if (globalKey !== undefined) {
         // Global symbols with same key should be treated as identical
-        return `Symbol.for("${globalKey}")`
+        return `Symbol.for(${TypeUtils.quoteString(globalKey)})`
       }
       
+      if (symbolIdentity === 'description') {
+        return sym.description === undefined ? 'Symbol()' : `Symbol(${TypeUtils.quoteString(sym.description)})`
+      }
+      if (symbolIdentity === 'identity') {
+        return `Symbol#${globalSymbolRegistry.identify(sym)}`
+      }
+
       // 用户需求：所有普通 Symbol() 都应该被当作相同的键
       // 不管是否有 description，所有普通 Symbol 都返回相同的字符串
       return 'Symbol()'
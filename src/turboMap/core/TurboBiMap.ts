@@ -0,0 +1,189 @@
+/**
+ * Bidirectional map with structural keys and values
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import { createKeySerializer, type KeySerializer } from './KeySerializer'
+import type { SymbolIdentityMode } from '../utils/SymbolRegistry'
+
+/**
+ * What set() does when the value is already bound to another key
+ */
+export type BiMapConflictPolicy = 'throw' | 'overwrite'
+
+/**
+ * TurboBiMap configuration options
+ */
+export interface TurboBiMapOptions {
+  onConflict?: BiMapConflictPolicy
+  enableAdaptiveSerialization?: boolean
+  distinguishClasses?: boolean
+  symbolIdentity?: SymbolIdentityMode
+}
+
+/**
+ * One direction of a pair; the opposite direction holds the mirrored entry
+ */
+interface BiMapEntry<K, V> {
+  key: K
+  value: V
+  keyId: string
+  valueId: string
+}
+
+/**
+ * Shared between a map and its inverse, with the directions swapped
+ */
+interface BiMapSide<K, V> {
+  forward: Map<string, BiMapEntry<K, V>>
+  backward: Map<string, BiMapEntry<V, K>>
+  serializeKey: KeySerializer<K>
+  serializeValue: KeySerializer<V>
+}
+
+/**
+ * Map enforcing unique values, with an O(1) inverse view
+ */
+export class TurboBiMap<K extends MapKey, V extends MapKey> {
+  private side: BiMapSide<K, V>
+  private onConflict: BiMapConflictPolicy
+  private inverseView: TurboBiMap<V, K> | null = null
+
+  constructor(entries?: Iterable<readonly [K, V]> | null, options: TurboBiMapOptions = {}) {
+    const serialize = createKeySerializer<MapKey>({
+      enableAdaptiveSerialization: options.enableAdaptiveSerialization ?? true,
+      distinguishClasses: options.distinguishClasses ?? false,
+      symbolIdentity: options.symbolIdentity ?? 'collapse'
+    })
+    this.side = {
+      forward: new Map(),
+      backward: new Map(),
+      serializeKey: serialize,
+      serializeValue: serialize
+    }
+    this.onConflict = options.onConflict ?? 'throw'
+    if (entries) {
+      for (const [key, value] of entries) {
+        this.set(key, value)
+      }
+    }
+  }
+
+  get size(): number {
+    return this.side.forward.size
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'TurboBiMap'
+  }
+
+  /**
+   * Bind key to value; an existing binding of the key is replaced, while a value bound
+   * to another key follows the conflict policy
+   */
+  set(key: K, value: V): this {
+    const { forward, backward } = this.side
+    const keyId = this.side.serializeKey(key, { registerKeys: true })
+    const valueId = this.side.serializeValue(value, { registerKeys: true })
+
+    const owner = backward.get(valueId)
+    if (owner && owner.valueId !== keyId) {
+      if (this.onConflict === 'throw') {
+        throw new Error('TurboBiMap: Value is already bound to another key')
+      }
+      forward.delete(owner.valueId)
+    }
+
+    const previous = forward.get(keyId)
+    if (previous) {
+      backward.delete(previous.valueId)
+    }
+
+    forward.set(keyId, { key, value, keyId, valueId })
+    backward.set(valueId, { key: value, value: key, keyId: valueId, valueId: keyId })
+    return this
+  }
+
+  get(key: K): V | undefined {
+    return this.side.forward.get(this.side.serializeKey(key))?.value
+  }
+
+  has(key: K): boolean {
+    return this.side.forward.has(this.side.serializeKey(key))
+  }
+
+  hasValue(value: V): boolean {
+    return this.side.backward.has(this.side.serializeValue(value))
+  }
+
+  delete(key: K): boolean {
+    const keyId = this.side.serializeKey(key)
+    const entry = this.side.forward.get(keyId)
+    if (!entry) return false
+    this.side.forward.delete(keyId)
+    this.side.backward.delete(entry.valueId)
+    return true
+  }
+
+  clear(): void {
+    this.side.forward.clear()
+    this.side.backward.clear()
+  }
+
+  /**
+   * Live view from values to keys; changes through either view show in both
+   */
+  inverse(): TurboBiMap<V, K> {
+    if (!this.inverseView) {
+      const view = Object.create(TurboBiMap.prototype) as TurboBiMap<V, K>
+      view.side = {
+        forward: this.side.backward,
+        backward: this.side.forward,
+        serializeKey: this.side.serializeValue,
+        serializeValue: this.side.serializeKey
+      }
+      view.onConflict = this.onConflict
+      view.inverseView = this
+      this.inverseView = view
+    }
+    return this.inverseView
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const entry of this.side.forward.values()) {
+      yield entry.key
+    }
+  }
+
+  *values(): IterableIterator<V> {
+    for (const entry of this.side.forward.values()) {
+      yield entry.value
+    }
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const entry of this.side.forward.values()) {
+      yield [entry.key, entry.value]
+    }
+  }
+
+  forEach(callback: (value: V, key: K, map: this) => void): void {
+    for (const [key, value] of this.entries()) {
+      callback(value, key, this)
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries()
+  }
+}
+
+/**
+ * Create a TurboBiMap
+ */
+export function createTurboBiMap<K extends MapKey, V extends MapKey>(
+  entries?: Iterable<readonly [K, V]> | null,
+  options?: TurboBiMapOptions
+): TurboBiMap<K, V> {
+  return new TurboBiMap<K, V>(entries, options)
+}
@@ -0,0 +1,176 @@
+/**
+ * One-to-many map with structural keys
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import { createKeySerializer, serializeKey, type KeySerializer, type KeySerializerOptions } from './KeySerializer'
+
+/**
+ * TurboMultiMap configuration options
+ */
+export type TurboMultiMapOptions<K> = KeySerializerOptions<K>
+
+interface MultiMapBucket<K, V> {
+  key: K
+  values: V[]
+}
+
+/**
+ * Multimap keeping every value added under a key, in insertion order
+ */
+export class TurboMultiMap<K extends MapKey, V> {
+  private buckets = new Map<string, MultiMapBucket<K, V>>()
+  private serialize: KeySerializer<K>
+  private valueCount = 0
+
+  constructor(entries?: Iterable<readonly [K, V]> | null, options: TurboMultiMapOptions<K> = {}) {
+    this.serialize = createKeySerializer(options)
+    if (entries) {
+      for (const [key, value] of entries) {
+        this.add(key, value)
+      }
+    }
+  }
+
+  /**
+   * Number of distinct keys
+   */
+  get size(): number {
+    return this.buckets.size
+  }
+
+  /**
+   * Number of values across all keys
+   */
+  get totalCount(): number {
+    return this.valueCount
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'TurboMultiMap'
+  }
+
+  add(key: K, value: V): this {
+    return this.addAll(key, [value])
+  }
+
+  addAll(key: K, values: Iterable<V>): this {
+    const serialized = this.serialize(key, { registerKeys: true })
+    let bucket = this.buckets.get(serialized)
+    for (const value of values) {
+      if (!bucket) {
+        bucket = { key, values: [] }
+        this.buckets.set(serialized, bucket)
+      }
+      bucket.values.push(value)
+      this.valueCount++
+    }
+    return this
+  }
+
+  /**
+   * Every value stored under the key; empty when there are none
+   */
+  get(key: K): V[] {
+    return this.buckets.get(this.serialize(key))?.values.slice() ?? []
+  }
+
+  has(key: K): boolean {
+    return this.buckets.has(this.serialize(key))
+  }
+
+  /**
+   * Check for a value under the key, comparing values structurally
+   */
+  hasValue(key: K, value: V): boolean {
+    const bucket = this.buckets.get(this.serialize(key))
+    return bucket !== undefined && this.indexOfValue(bucket, value) !== -1
+  }
+
+  count(key: K): number {
+    return this.buckets.get(this.serialize(key))?.values.length ?? 0
+  }
+
+  /**
+   * Remove every value stored under the key
+   */
+  delete(key: K): boolean {
+    const serialized = this.serialize(key)
+    const bucket = this.buckets.get(serialized)
+    if (!bucket) return false
+    this.valueCount -= bucket.values.length
+    return this.buckets.delete(serialized)
+  }
+
+  /**
+   * Remove the first occurrence of a value under the key; the key goes once it has no values
+   */
+  deleteValue(key: K, value: V): boolean {
+    const serialized = this.serialize(key)
+    const bucket = this.buckets.get(serialized)
+    if (!bucket) return false
+
+    const index = this.indexOfValue(bucket, value)
+    if (index === -1) return false
+
+    bucket.values.splice(index, 1)
+    this.valueCount--
+    if (bucket.values.length === 0) {
+      this.buckets.delete(serialized)
+    }
+    return true
+  }
+
+  clear(): void {
+    this.buckets.clear()
+    this.valueCount = 0
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const bucket of this.buckets.values()) {
+      yield bucket.key
+    }
+  }
+
+  *values(): IterableIterator<V> {
+    for (const bucket of this.buckets.values()) {
+      yield* bucket.values
+    }
+  }
+
+  /**
+   * Each key with its values
+   */
+  *entries(): IterableIterator<[K, V[]]> {
+    for (const bucket of this.buckets.values()) {
+      yield [bucket.key, bucket.values.slice()]
+    }
+  }
+
+  forEach(callback: (values: V[], key: K, map: this) => void): void {
+    for (const [key, values] of this.entries()) {
+      callback(values, key, this)
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V[]]> {
+    return this.entries()
+  }
+
+  private indexOfValue(bucket: MultiMapBucket<K, V>, value: V): number {
+    const index = bucket.values.indexOf(value)
+    if (index !== -1) return index
+    const serialized = serializeKey(value)
+    return bucket.values.findIndex(candidate => serializeKey(candidate) === serialized)
+  }
+}
+
+/**
+ * Create a TurboMultiMap
+ */
+export function createTurboMultiMap<K extends MapKey, V>(
+  entries?: Iterable<readonly [K, V]> | null,
+  options?: TurboMultiMapOptions<K>
+): TurboMultiMap<K, V> {
+  return new TurboMultiMap<K, V>(entries, options)
+}
@@ -0,0 +1,293 @@
+/**
+ * Mergeable map replicas with structural keys
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import { createKeySerializer, type KeySerializer } from './KeySerializer'
+import { globalTypedCodec, type TypedValue } from './TypedCodec'
+import type { SymbolIdentityMode } from '../utils/SymbolRegistry'
+
+/**
+ * TurboReplicatedMap configuration options
+ */
+export interface TurboReplicatedMapOptions {
+  enableAdaptiveSerialization?: boolean
+  distinguishClasses?: boolean
+  symbolIdentity?: SymbolIdentityMode
+}
+
+/**
+ * Hybrid logical timestamp of a write; ordered by time, then counter, then replica
+ */
+export interface ReplicaStamp {
+  time: number
+  counter: number
+  replica: string
+}
+
+/**
+ * One entry in a state or delta; v is absent for deleted entries
+ */
+export interface ReplicatedEntryState {
+  k: TypedValue
+  v?: TypedValue
+  stamp: ReplicaStamp
+}
+
+/**
+ * Serializable state of a replica, or of the changes since an earlier sequence number
+ */
+export interface ReplicatedMapState {
+  format: 'turbo-replicated-map'
+  version: 1
+  replica: string
+  seq: number // pass to getDelta() to receive only later changes
+  entries: ReplicatedEntryState[]
+}
+
+interface ReplicatedEntry<K, V> {
+  key: K
+  value: V | undefined
+  deleted: boolean
+  stamp: ReplicaStamp
+  seq: number // local sequence number of the last change
+}
+
+/**
+ * Order of two stamps; replicas compare them identically, so merges converge
+ */
+export function compareStamps(a: ReplicaStamp, b: ReplicaStamp): number {
+  if (a.time !== b.time) return a.time < b.time ? -1 : 1
+  if (a.counter !== b.counter) return a.counter < b.counter ? -1 : 1
+  return a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0
+}
+
+function isStamp(value: unknown): value is ReplicaStamp {
+  const stamp = value as Partial<ReplicaStamp> | null
+  return typeof stamp === 'object' && stamp !== null && Number.isFinite(stamp.time) &&
+    Number.isFinite(stamp.counter) && typeof stamp.replica === 'string'
+}
+
+/**
+ * Last-writer-wins map CRDT
+ *
+ * Every entry keeps the stamp of its latest write, and deletes leave tombstones, so a
+ * delete concurrent with an older write survives a merge. Stamps come from a hybrid
+ * logical clock that advances past every stamp merged in, so a write made after seeing
+ * another always wins over it. Merging is commutative, associative and idempotent.
+ */
+export class TurboReplicatedMap<K extends MapKey, V> {
+  readonly replicaId: string
+  private entryMap = new Map<string, ReplicatedEntry<K, V>>()
+  private serialize: KeySerializer<K>
+  private liveCount = 0
+  private clockTime = 0
+  private clockCounter = 0
+  private seq = 0
+
+  constructor(replicaId: string, entries?: Iterable<readonly [K, V]> | null, options: TurboReplicatedMapOptions = {}) {
+    if (typeof replicaId !== 'string' || replicaId === '') {
+      throw new Error('TurboReplicatedMap: replicaId must be a non-empty string')
+    }
+    this.replicaId = replicaId
+    this.serialize = createKeySerializer<K>({
+      enableAdaptiveSerialization: options.enableAdaptiveSerialization ?? true,
+      distinguishClasses: options.distinguishClasses ?? false,
+      symbolIdentity: options.symbolIdentity ?? 'collapse'
+    })
+    if (entries) {
+      for (const [key, value] of entries) {
+        this.set(key, value)
+      }
+    }
+  }
+
+  get size(): number {
+    return this.liveCount
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'TurboReplicatedMap'
+  }
+
+  set(key: K, value: V): this {
+    this.write(key, value, false)
+    return this
+  }
+
+  get(key: K): V | undefined {
+    const entry = this.entryMap.get(this.serialize(key))
+    return entry && !entry.deleted ? entry.value : undefined
+  }
+
+  has(key: K): boolean {
+    const entry = this.entryMap.get(this.serialize(key))
+    return entry !== undefined && !entry.deleted
+  }
+
+  delete(key: K): boolean {
+    if (!this.has(key)) return false
+    this.write(key, undefined, true)
+    return true
+  }
+
+  clear(): void {
+    for (const entry of Array.from(this.entryMap.values())) {
+      if (!entry.deleted) {
+        this.write(entry.key, undefined, true)
+      }
+    }
+  }
+
+  /**
+   * Full state of the replica
+   */
+  getState(): ReplicatedMapState {
+    return this.getDelta(0)
+  }
+
+  /**
+   * Entries changed here, by local writes or merges, after the given sequence number
+   */
+  getDelta(since: number): ReplicatedMapState {
+    const entries: ReplicatedEntryState[] = []
+    for (const entry of this.entryMap.values()) {
+      if (entry.seq > since) {
+        const state: ReplicatedEntryState = { k: globalTypedCodec.encode(entry.key), stamp: { ...entry.stamp } }
+        if (!entry.deleted) {
+          state.v = globalTypedCodec.encode(entry.value)
+        }
+        entries.push(state)
+      }
+    }
+    return { format: 'turbo-replicated-map', version: 1, replica: this.replicaId, seq: this.seq, entries }
+  }
+
+  /**
+   * Merge a state or delta from another replica; returns the number of entries it changed
+   */
+  merge(remote: ReplicatedMapState): number {
+    if (!remote || remote.format !== 'turbo-replicated-map' || remote.version !== 1 || !Array.isArray(remote.entries)) {
+      throw new Error('TurboReplicatedMap: Not a replicated map state')
+    }
+    // Checked up front so a malformed state changes nothing
+    if (!remote.entries.every(state => state && 'k' in state && isStamp(state.stamp))) {
+      throw new Error('TurboReplicatedMap: Malformed entry in replicated map state')
+    }
+    // Decoded in full before anything is applied, so a bad key or value leaves no partial merge
+    const decoded = remote.entries.map(state => {
+      const key = globalTypedCodec.decode(state.k) as K
+      const deleted = state.v === undefined
+      return {
+        id: this.serialize(key, { registerKeys: true }),
+        key,
+        value: deleted ? undefined : globalTypedCodec.decode(state.v as TypedValue) as V,
+        deleted,
+        stamp: state.stamp
+      }
+    })
+
+    let changed = 0
+    for (const { id, key, value, deleted, stamp } of decoded) {
+      this.observe(stamp)
+      const current = this.entryMap.get(id)
+      if (current && compareStamps(stamp, current.stamp) <= 0) continue
+
+      this.store(id, {
+        key,
+        value,
+        deleted,
+        stamp: { time: stamp.time, counter: stamp.counter, replica: stamp.replica },
+        seq: ++this.seq
+      })
+      changed++
+    }
+    return changed
+  }
+
+  /**
+   * Drop tombstones of deletes stamped before a time. Only safe once every replica has
+   * merged those deletes, otherwise an older write can reappear.
+   */
+  pruneTombstones(before: number): number {
+    let pruned = 0
+    for (const [id, entry] of Array.from(this.entryMap)) {
+      if (entry.deleted && entry.stamp.time < before) {
+        this.entryMap.delete(id)
+        pruned++
+      }
+    }
+    return pruned
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entries()) {
+      yield key
+    }
+  }
+
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) {
+      yield value
+    }
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const entry of this.entryMap.values()) {
+      if (!entry.deleted) {
+        yield [entry.key, entry.value as V]
+      }
+    }
+  }
+
+  forEach(callback: (value: V, key: K, map: this) => void): void {
+    for (const [key, value] of this.entries()) {
+      callback(value, key, this)
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries()
+  }
+
+  private write(key: K, value: V | undefined, deleted: boolean): void {
+    this.store(this.serialize(key, { registerKeys: true }), { key, value, deleted, stamp: this.tick(), seq: ++this.seq })
+  }
+
+  private store(id: string, entry: ReplicatedEntry<K, V>): void {
+    const previous = this.entryMap.get(id)
+    if (previous && !previous.deleted) this.liveCount--
+    if (!entry.deleted) this.liveCount++
+    this.entryMap.set(id, entry)
+  }
+
+  // Stamp for a local write, later than every stamp seen so far
+  private tick(): ReplicaStamp {
+    const now = Date.now()
+    if (now > this.clockTime) {
+      this.clockTime = now
+      this.clockCounter = 0
+    } else {
+      this.clockCounter++
+    }
+    return { time: this.clockTime, counter: this.clockCounter, replica: this.replicaId }
+  }
+
+  private observe(stamp: ReplicaStamp): void {
+    if (stamp.time > this.clockTime || (stamp.time === this.clockTime && stamp.counter > this.clockCounter)) {
+      this.clockTime = stamp.time
+      this.clockCounter = stamp.counter
+    }
+  }
+}
+
+/**
+ * Create a TurboReplicatedMap for one replica
+ */
+export function createReplicatedTurboMap<K extends MapKey, V>(
+  replicaId: string,
+  entries?: Iterable<readonly [K, V]> | null,
+  options?: TurboReplicatedMapOptions
+): TurboReplicatedMap<K, V> {
+  return new TurboReplicatedMap<K, V>(replicaId, entries, options)
+}
@@ -0,0 +1,155 @@
+/**
+ * Structural-equality Set built on the TurboMap key serialization
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import { createKeySerializer, type KeySerializer, type KeySerializerOptions } from './KeySerializer'
+
+/**
+ * TurboSet configuration options
+ */
+export type TurboSetOptions<T> = KeySerializerOptions<T>
+
+/**
+ * Set whose membership is decided by serialized value rather than identity
+ */
+export class TurboSet<T extends MapKey> implements Set<T> {
+  private items = new Map<string, T>()
+  private serialize: KeySerializer<T>
+  private options: TurboSetOptions<T>
+
+  constructor(values?: Iterable<T> | null, options: TurboSetOptions<T> = {}) {
+    this.options = options
+    this.serialize = createKeySerializer(options)
+    if (values) {
+      for (const value of values) {
+        this.add(value)
+      }
+    }
+  }
+
+  get size(): number {
+    return this.items.size
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'TurboSet'
+  }
+
+  add(value: T): this {
+    const serialized = this.serialize(value, { registerKeys: true })
+    if (!this.items.has(serialized)) {
+      this.items.set(serialized, value)
+    }
+    return this
+  }
+
+  has(value: T): boolean {
+    return this.items.has(this.serialize(value))
+  }
+
+  delete(value: T): boolean {
+    return this.items.delete(this.serialize(value))
+  }
+
+  clear(): void {
+    this.items.clear()
+  }
+
+  forEach(callback: (value: T, value2: T, set: Set<T>) => void, thisArg?: unknown): void {
+    for (const value of this.items.values()) {
+      callback.call(thisArg, value, value, this)
+    }
+  }
+
+  *entries(): SetIterator<[T, T]> {
+    for (const value of this.items.values()) {
+      yield [value, value]
+    }
+  }
+
+  keys(): SetIterator<T> {
+    return this.values()
+  }
+
+  values(): SetIterator<T> {
+    return this.items.values()
+  }
+
+  [Symbol.iterator](): SetIterator<T> {
+    return this.values()
+  }
+
+  // Set algebra; results keep this set's options and iterate in insertion order
+
+  union(other: Iterable<T>): TurboSet<T> {
+    const result = this.derive(this)
+    for (const value of other) {
+      result.add(value)
+    }
+    return result
+  }
+
+  intersection(other: Iterable<T>): TurboSet<T> {
+    const lookup = this.toTurboSet(other)
+    return this.derive(Array.from(this).filter(value => lookup.has(value)))
+  }
+
+  difference(other: Iterable<T>): TurboSet<T> {
+    const lookup = this.toTurboSet(other)
+    return this.derive(Array.from(this).filter(value => !lookup.has(value)))
+  }
+
+  symmetricDifference(other: Iterable<T>): TurboSet<T> {
+    const lookup = this.toTurboSet(other)
+    const result = this.difference(lookup)
+    for (const value of lookup) {
+      if (!this.has(value)) {
+        result.add(value)
+      }
+    }
+    return result
+  }
+
+  isSubsetOf(other: Iterable<T>): boolean {
+    const lookup = this.toTurboSet(other)
+    if (this.size > lookup.size) return false
+    for (const value of this) {
+      if (!lookup.has(value)) return false
+    }
+    return true
+  }
+
+  isSupersetOf(other: Iterable<T>): boolean {
+    for (const value of other) {
+      if (!this.has(value)) return false
+    }
+    return true
+  }
+
+  isDisjointFrom(other: Iterable<T>): boolean {
+    for (const value of other) {
+      if (this.has(value)) return false
+    }
+    return true
+  }
+
+  private derive(values: Iterable<T>): TurboSet<T> {
+    return new TurboSet<T>(values, this.options)
+  }
+
+  // Membership against another collection must use the same structural comparison
+  private toTurboSet(other: Iterable<T>): TurboSet<T> {
+    return other instanceof TurboSet ? other : this.derive(other)
+  }
+}
+
+/**
+ * Create a TurboSet
+ */
+export function createTurboSet<T extends MapKey>(
+  values?: Iterable<T> | null,
+  options?: TurboSetOptions<T>
+): TurboSet<T> {
+  return new TurboSet<T>(values, options)
+}
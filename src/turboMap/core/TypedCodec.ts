@@ -0,0 +1,315 @@
+/**
+ * Type-preserving encoding for keys and values
+ *
+ * Values are turned into JSON-safe tagged trees and back. The tag is chosen
+ * from the AdaptiveSerializer strategy that claims the value, so the codec
+ * follows the same type decisions the map uses for its keys.
+ */
+
+import { TypeUtils } from '../utils/TypeUtils'
+import { AdaptiveSerializer, globalSerializer } from './Serializer'
+import { ClassTagRegistry, globalClassTagRegistry } from './ClassTagRegistry'
+import { bytesToHex, fromBinaryData, hexToBytes, toBinaryData } from '../utils/BinaryData'
+
+/**
+ * Tagged, JSON-compatible representation of a value
+ */
+export type TypedValue =
+  | null
+  | boolean
+  | string
+  | number
+  | { $t: 'undefined' }
+  | { $t: 'number'; v: 'NaN' | 'Infinity' | '-Infinity' | '-0' }
+  | { $t: 'bigint'; v: string }
+  | { $t: 'symbol'; v: string | null; global: boolean }
+  | { $t: 'date'; v: number | null }
+  | { $t: 'regexp'; source: string; flags: string }
+  | { $t: 'error'; name: string; message: string }
+  | { $t: 'function'; name: string; length: number }
+  | { $t: 'bytes'; type: string; v: string } // hex; type is the constructor name
+  | { $t: 'url'; v: string }
+  | { $t: 'array'; v: TypedValue[] }
+  | { $t: 'object'; v: Record<string, TypedValue> }
+  | { $t: 'class'; tag: string; v: Record<string, TypedValue> } // instance of a registered class
+  | { $t: 'map'; v: [TypedValue, TypedValue][] }
+  | { $t: 'set'; v: TypedValue[] }
+
+/**
+ * Export format produced by EnhancedTurboMapLike.serialize()
+ */
+export interface SerializedTurboMap {
+  format: 'turbo-map'
+  version: 1
+  entries: [TypedValue, TypedValue][]
+}
+
+/**
+ * Type tags shared by the JSON and binary codecs
+ */
+export type TypeTag =
+  | 'null' | 'undefined' | 'boolean' | 'number' | 'string' | 'bigint' | 'symbol'
+  | 'date' | 'regexp' | 'error' | 'function' | 'bytes' | 'url'
+  | 'array' | 'object' | 'map' | 'set'
+
+type TaggedValue = Exclude<TypedValue, null | boolean | string | number>
+
+/**
+ * Encoder/decoder for TypedValue trees
+ */
+export class TypedCodec {
+  private serializer: AdaptiveSerializer
+  private classTags: ClassTagRegistry
+
+  constructor(serializer: AdaptiveSerializer = globalSerializer, classTags: ClassTagRegistry = globalClassTagRegistry) {
+    this.serializer = serializer
+    this.classTags = classTags
+  }
+
+  /**
+   * Classify a value, following the serializer strategy that claims it
+   */
+  getTypeTag(value: unknown): TypeTag {
+    const strategy = this.serializer.getStrategyName(value)
+
+    switch (strategy) {
+      case 'date':
+      case 'regexp':
+      case 'error':
+      case 'function':
+      case 'url':
+        return strategy
+      case 'typedArray':
+      case 'arrayBuffer':
+      case 'dataView':
+        return 'bytes'
+      default:
+        // Primitives, built-in structures and custom strategies by the shape of the value
+        if (value === null) return 'null'
+        if (TypeUtils.isPrimitive(value)) return typeof value as TypeTag
+        if (typeof value === 'function') return 'function'
+        if (Array.isArray(value)) return 'array'
+        if (value instanceof Map) return 'map'
+        if (value instanceof Set) return 'set'
+        return 'object'
+    }
+  }
+
+  /**
+   * Registered class tag of an object, if its class has one
+   */
+  getClassTag(value: object): string | undefined {
+    return this.classTags.registeredTagOfInstance(value)
+  }
+
+  /**
+   * Empty instance of the class registered under a tag
+   */
+  createClassInstance(tag: string): Record<string, unknown> {
+    const ctor = this.classTags.getRegisteredClass(tag)
+    if (!ctor) {
+      throw new Error(`TypedCodec: Unknown class tag "${tag}"; register the class before decoding`)
+    }
+    return Object.create(ctor.prototype as object) as Record<string, unknown>
+  }
+
+  /**
+   * Encode any supported value into a TypedValue tree
+   */
+  encode(value: unknown): TypedValue {
+    return this.encodeValue(value, new WeakSet<object>())
+  }
+
+  /**
+   * Rebuild a value from its TypedValue tree
+   */
+  decode(typed: TypedValue): unknown {
+    if (typed === null || typeof typed !== 'object') {
+      return typed
+    }
+
+    const tagged = typed as TaggedValue
+    switch (tagged.$t) {
+      case 'undefined':
+        return undefined
+      case 'number':
+        return tagged.v === '-0' ? -0 : Number(tagged.v)
+      case 'bigint':
+        return BigInt(tagged.v)
+      case 'symbol':
+        if (tagged.global) return Symbol.for(tagged.v ?? '')
+        return tagged.v === null ? Symbol() : Symbol(tagged.v)
+      case 'date':
+        return new Date(tagged.v ?? NaN)
+      case 'regexp':
+        return new RegExp(tagged.source, tagged.flags)
+      case 'error': {
+        const error = new Error(tagged.message)
+        error.name = tagged.name
+        return error
+      }
+      case 'function':
+        return this.createFunctionStub(tagged.name, tagged.length)
+      case 'bytes':
+        return fromBinaryData(tagged.type, hexToBytes(tagged.v))
+      case 'url':
+        return new URL(tagged.v)
+      case 'array':
+        return tagged.v.map(item => this.decode(item))
+      case 'object':
+      case 'class': {
+        const result = tagged.$t === 'class' ? this.createClassInstance(tagged.tag) : {}
+        for (const [key, item] of Object.entries(tagged.v)) {
+          // defineProperty keeps a literal "__proto__" key from replacing the prototype
+          Object.defineProperty(result, key, {
+            value: this.decode(item),
+            enumerable: true,
+            writable: true,
+            configurable: true
+          })
+        }
+        return result
+      }
+      case 'map':
+        return new Map(tagged.v.map(([key, item]) => [this.decode(key), this.decode(item)]))
+      case 'set':
+        return new Set(tagged.v.map(item => this.decode(item)))
+      default:
+        throw new Error(`TypedCodec: Unknown type tag ${(tagged as { $t: unknown }).$t}`)
+    }
+  }
+
+  /**
+   * Encode map entries into the export format
+   */
+  encodeEntries(entries: Iterable<readonly [unknown, unknown]>): SerializedTurboMap {
+    const encoded: [TypedValue, TypedValue][] = []
+    for (const [key, value] of entries) {
+      encoded.push([this.encode(key), this.encode(value)])
+    }
+    return { format: 'turbo-map', version: 1, entries: encoded }
+  }
+
+  /**
+   * Decode entries from the export format, also accepting the legacy plain JSON entry array
+   */
+  decodeEntries(data: unknown): [unknown, unknown][] {
+    if (Array.isArray(data)) {
+      return data.map(entry => {
+        if (!Array.isArray(entry) || entry.length !== 2) {
+          throw new Error('TypedCodec: Legacy entries must be [key, value] pairs')
+        }
+        return [entry[0], entry[1]]
+      })
+    }
+
+    const serialized = data as Partial<SerializedTurboMap> | null
+    if (!serialized || serialized.format !== 'turbo-map' || !Array.isArray(serialized.entries)) {
+      throw new Error('TypedCodec: Not a serialized TurboMap')
+    }
+    if (serialized.version !== 1) {
+      throw new Error(`TypedCodec: Unsupported format version ${serialized.version}`)
+    }
+    return serialized.entries.map(([key, value]) => [this.decode(key), this.decode(value)])
+  }
+
+  private encodeValue(value: unknown, visited: WeakSet<object>): TypedValue {
+    const tag = this.getTypeTag(value)
+
+    switch (tag) {
+      case 'date': {
+        const time = (value as Date).getTime()
+        return { $t: 'date', v: Number.isNaN(time) ? null : time }
+      }
+      case 'regexp':
+        return { $t: 'regexp', source: (value as RegExp).source, flags: (value as RegExp).flags }
+      case 'error':
+        return { $t: 'error', name: (value as Error).name, message: (value as Error).message }
+      case 'function':
+        return { $t: 'function', name: (value as Function).name, length: (value as Function).length }
+      case 'bytes': {
+        const { type, bytes } = toBinaryData(value as ArrayBuffer | ArrayBufferView)
+        return { $t: 'bytes', type, v: bytesToHex(bytes) }
+      }
+      case 'url':
+        return { $t: 'url', v: (value as URL).href }
+      case 'array':
+      case 'object':
+      case 'map':
+      case 'set':
+        return this.encodeStructure(tag, value as object, visited)
+      default:
+        return this.encodePrimitive(value)
+    }
+  }
+
+  private encodePrimitive(value: unknown): TypedValue {
+    switch (typeof value) {
+      case 'undefined':
+        return { $t: 'undefined' }
+      case 'number':
+        if (Number.isNaN(value)) return { $t: 'number', v: 'NaN' }
+        if (value === Infinity) return { $t: 'number', v: 'Infinity' }
+        if (value === -Infinity) return { $t: 'number', v: '-Infinity' }
+        if (Object.is(value, -0)) return { $t: 'number', v: '-0' }
+        return value
+      case 'bigint':
+        return { $t: 'bigint', v: value.toString() }
+      case 'symbol': {
+        const globalKey = Symbol.keyFor(value)
+        return globalKey !== undefined
+          ? { $t: 'symbol', v: globalKey, global: true }
+          : { $t: 'symbol', v: value.description ?? null, global: false }
+      }
+      case 'string':
+      case 'boolean':
+        return value
+      default:
+        return null
+    }
+  }
+
+  private encodeStructure(tag: 'array' | 'object' | 'map' | 'set', value: object, visited: WeakSet<object>): TypedValue {
+    if (visited.has(value)) {
+      throw new Error('TypedCodec: Circular structures cannot be encoded')
+    }
+    visited.add(value)
+
+    try {
+      if (tag === 'array') {
+        return { $t: 'array', v: (value as unknown[]).map(item => this.encodeValue(item, visited)) }
+      }
+      if (tag === 'map') {
+        return {
+          $t: 'map',
+          v: Array.from(value as Map<unknown, unknown>, ([key, item]) => [this.encodeValue(key, visited), this.encodeValue(item, visited)])
+        }
+      }
+      if (tag === 'set') {
+        return { $t: 'set', v: Array.from(value as Set<unknown>, item => this.encodeValue(item, visited)) }
+      }
+
+      const encoded = Object.create(null) as Record<string, TypedValue>
+      for (const key of Object.keys(value)) {
+        encoded[key] = this.encodeValue((value as Record<string, unknown>)[key], visited)
+      }
+      const classTag = this.getClassTag(value)
+      return classTag === undefined ? { $t: 'object', v: encoded } : { $t: 'class', tag: classTag, v: encoded }
+    } finally {
+      visited.delete(value)
+    }
+  }
+
+  /**
+   * Functions cannot be restored; a stub with the same name and arity keeps the same map key
+   */
+  private createFunctionStub(name: string, length: number): Function {
+    const stub = function () {}
+    Object.defineProperty(stub, 'name', { value: name })
+    Object.defineProperty(stub, 'length', { value: length })
+    return stub
+  }
+}
+
+// Global instance
+export const globalTypedCodec = new TypedCodec()
@@ -0,0 +1,289 @@
+/**
+ * Write-ahead log for crash-safe maps
+ */
+
+import { crc32 } from '../utils/BinaryData'
+import { parseRecord, type PersistenceRecord } from '../plugins/PersistenceRecord'
+
+type NodeFs = typeof import('node:fs')
+
+/**
+ * Logged entry: a mutation, or a marker delimiting a transaction
+ */
+export type WalRecord = PersistenceRecord | { op: 'begin' } | { op: 'commit' } | { op: 'abort' }
+
+/**
+ * What recovery found in the log
+ */
+export interface WalRecoveryReport {
+  path: string
+  records: number // mutations replayed
+  tornRecord: boolean // an incomplete record at the end, left by a crash mid-write
+  corruptRecords: number // complete records failing their checksum
+  discardedRecords: number // intact records after the first corrupt one, dropped with it
+  incompleteTransaction: boolean // a transaction without its commit record
+  truncatedBytes: number
+}
+
+export interface WalStatus {
+  path: string
+  recovery: WalRecoveryReport
+  appended: number // records appended since recovery or the last checkpoint
+  failed: boolean
+  closed: boolean
+}
+
+const NEWLINE = 0x0a
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * Encode a record as a line holding its CRC-32 and JSON text
+ */
+export function encodeWalRecord(record: WalRecord): string {
+  const json = JSON.stringify(record)
+  return `${crc32(encoder.encode(json)).toString(16).padStart(8, '0')} ${json}\n`
+}
+
+/**
+ * Decode a line without its newline, or null when its checksum or content is invalid
+ */
+export function decodeWalRecord(line: string): WalRecord | null {
+  const checksum = line.slice(0, 8)
+  if (line[8] !== ' ' || !/^[0-9a-f]{8}$/.test(checksum)) return null
+  const json = line.slice(9)
+  if (parseInt(checksum, 16) !== crc32(encoder.encode(json))) return null
+  try {
+    const marker = JSON.parse(json) as { op?: unknown } | null
+    if (marker && (marker.op === 'begin' || marker.op === 'commit' || marker.op === 'abort')) {
+      return { op: marker.op }
+    }
+    return parseRecord(json)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Append-only log that is written and fsynced before a map changes
+ *
+ * open() recovers the log: records up to the first damaged one are kept, mutations of
+ * transactions that never committed are dropped, and the file is truncated to what was
+ * kept. A corrupt tail is saved next to the log with a .corrupt suffix. Requires Node.js.
+ */
+export class WriteAheadLog {
+  private appended = 0
+  private failed = false
+  private closed = false
+  private recovered: PersistenceRecord[] | null
+
+  private constructor(
+    private fs: NodeFs,
+    readonly path: string,
+    private fd: number,
+    private size: number,
+    recovered: PersistenceRecord[],
+    readonly recovery: WalRecoveryReport
+  ) {
+    this.recovered = recovered
+  }
+
+  /**
+   * Recover the log at a path, creating it if needed, and open it for appending
+   */
+  static async open(path: string): Promise<WriteAheadLog> {
+    const fs = await import('node:fs')
+    const bytes = fs.existsSync(path) ? fs.readFileSync(path) : new Uint8Array(0)
+    const { records, report, validBytes } = WriteAheadLog.scan(path, bytes)
+
+    if (validBytes < bytes.length) {
+      if (report.corruptRecords > 0) {
+        fs.writeFileSync(`${path}.corrupt`, bytes.subarray(validBytes))
+      }
+      fs.truncateSync(path, validBytes)
+    }
+    const fd = fs.openSync(path, 'a')
+    fs.fsyncSync(fd)
+    return new WriteAheadLog(fs, path, fd, validBytes, records, report)
+  }
+
+  private static scan(path: string, bytes: Uint8Array): {
+    records: PersistenceRecord[]
+    report: WalRecoveryReport
+    validBytes: number
+  } {
+    const records: PersistenceRecord[] = []
+    const report: WalRecoveryReport = {
+      path,
+      records: 0,
+      tornRecord: false,
+      corruptRecords: 0,
+      discardedRecords: 0,
+      incompleteTransaction: false,
+      truncatedBytes: 0
+    }
+    // Mutations of the open transaction, applied once its commit record is read
+    let pending: PersistenceRecord[] | null = null
+    // End of the last record outside an open transaction
+    let validBytes = 0
+    let offset = 0
+    let damaged = false
+
+    while (offset < bytes.length) {
+      const end = bytes.indexOf(NEWLINE, offset)
+      if (end === -1) {
+        if (!damaged) report.tornRecord = true
+        break
+      }
+      const record = decodeWalRecord(decoder.decode(bytes.subarray(offset, end)))
+      offset = end + 1
+
+      if (damaged || record === null) {
+        damaged = true
+        if (record === null) {
+          report.corruptRecords++
+        } else {
+          report.discardedRecords++
+        }
+        continue
+      }
+
+      switch (record.op) {
+        case 'begin':
+          // A begin inside a transaction abandons the earlier one
+          pending = []
+          break
+        case 'commit':
+          if (pending) records.push(...pending)
+          pending = null
+          validBytes = offset
+          break
+        case 'abort':
+          pending = null
+          validBytes = offset
+          break
+        default:
+          if (pending) {
+            pending.push(record)
+          } else {
+            records.push(record)
+            validBytes = offset
+          }
+      }
+    }
+
+    report.incompleteTransaction = pending !== null
+    report.records = records.length
+    report.truncatedBytes = bytes.length - validBytes
+    return { records, report, validBytes }
+  }
+
+  /**
+   * Recovered mutations, handed out once for replay
+   */
+  takeRecoveredRecords(): PersistenceRecord[] {
+    const records = this.recovered ?? []
+    this.recovered = null
+    return records
+  }
+
+  /**
+   * Write a record, fsyncing unless sync is false. A failed write is cut off the log and
+   * fails every later append, since the file can no longer be trusted to match the map.
+   */
+  append(record: WalRecord, sync = true): void {
+    if (this.closed) {
+      throw new Error(`WriteAheadLog: ${this.path} is closed`)
+    }
+    if (this.failed) {
+      throw new Error(`WriteAheadLog: ${this.path} failed a previous write`)
+    }
+    const bytes = encoder.encode(encodeWalRecord(record))
+    try {
+      this.writeAll(this.fd, bytes)
+      if (sync) {
+        this.fs.fsyncSync(this.fd)
+      }
+    } catch (error) {
+      this.failed = true
+      try {
+        this.fs.ftruncateSync(this.fd, this.size)
+      } catch {
+        // The failed flag already stops further writes
+      }
+      throw error
+    }
+    this.size += bytes.length
+    this.appended++
+  }
+
+  /**
+   * Replace the log with the given records, atomically through a renamed temporary file
+   */
+  checkpoint(records: Iterable<PersistenceRecord>): void {
+    if (this.closed) {
+      throw new Error(`WriteAheadLog: ${this.path} is closed`)
+    }
+    const fs = this.fs
+    const tempPath = `${this.path}.tmp`
+    const tempFd = fs.openSync(tempPath, 'w')
+    let size = 0
+    try {
+      for (const record of records) {
+        const bytes = encoder.encode(encodeWalRecord(record))
+        this.writeAll(tempFd, bytes)
+        size += bytes.length
+      }
+      fs.fsyncSync(tempFd)
+    } finally {
+      fs.closeSync(tempFd)
+    }
+    fs.renameSync(tempPath, this.path)
+    this.syncDirectory()
+
+    fs.closeSync(this.fd)
+    this.fd = fs.openSync(this.path, 'a')
+    this.size = size
+    this.appended = 0
+    this.failed = false
+  }
+
+  getStatus(): WalStatus {
+    return {
+      path: this.path,
+      recovery: { ...this.recovery },
+      appended: this.appended,
+      failed: this.failed,
+      closed: this.closed
+    }
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    this.fs.closeSync(this.fd)
+  }
+
+  private writeAll(fd: number, bytes: Uint8Array): void {
+    let written = 0
+    while (written < bytes.length) {
+      written += this.fs.writeSync(fd, bytes, written)
+    }
+  }
+
+  // Makes the rename durable; not every platform can open a directory
+  private syncDirectory(): void {
+    const separator = Math.max(this.path.lastIndexOf('/'), this.path.lastIndexOf('\\'))
+    const directory = separator > 0 ? this.path.slice(0, separator) : '.'
+    try {
+      const fd = this.fs.openSync(directory, 'r')
+      try {
+        this.fs.fsyncSync(fd)
+      } finally {
+        this.fs.closeSync(fd)
+      }
+    } catch {
+      // Best effort
+    }
+  }
+}
@@ -19,7 +19,17 @@ export { TypeUtils } from './utils/TypeUtils'
 export { ObjectPool, EnhancedObjectPool, globalObjectPool } from './utils/ObjectPool'
 
 // Fast hashing with multiple strategies
-export { FastHasher, globalFastHasher } from './utils/FastHash'
+export { FastHasher, globalFastHasher, type FastHashOptions } from './utils/FastHash'
+
+// Symbol identity
+export {
+  SymbolRegistry,
+  globalSymbolRegistry,
+  type SymbolIdentityMode
+} from './utils/SymbolRegistry'
+
+// Ordered collections
+export { SkipList } from './utils/SkipList'
 
 // Error recovery system
 export { 
@@ -37,13 +47,118 @@ export {
   type TieredCacheOptions 
 } from './core/CacheManager'
 
+// Eviction policies for bounded maps
+export {
+  LRUEvictionPolicy,
+  LFUEvictionPolicy,
+  FIFOEvictionPolicy,
+  createEvictionPolicy,
+  type EvictionPolicy,
+  type EvictionPolicyName
+} from './core/EvictionPolicy'
+
 // Adaptive serialization
 export { 
   AdaptiveSerializer, 
   globalSerializer,
   type SerializationContext,
-  type SerializationStrategy 
+  type SerializationStrategy,
+  type SerializeOptions
 } from './core/Serializer'
+export {
+  ClassTagRegistry,
+  globalClassTagRegistry
+} from './core/ClassTagRegistry'
+export { KeyCollisionError, KeySerializationError } from './core/KeyInjectivity'
+
+// Key identity protocol
+export {
+  TurboMap,
+  hasKeyProtocol,
+  type TurboMapHashable,
+  type TurboMapEquatable
+} from './core/KeyProtocol'
+
+// Typed encoding
+export {
+  TypedCodec,
+  globalTypedCodec,
+  type TypedValue,
+  type SerializedTurboMap
+} from './core/TypedCodec'
+export {
+  BinaryCodec,
+  globalBinaryCodec
+} from './core/BinaryCodec'
+
+// Key serialization shared by the collections
+export {
+  serializeKey,
+  createKeySerializer,
+  type KeySerializer,
+  type KeySerializerOptions
+} from './core/KeySerializer'
+
+// Structural collections
+export {
+  TurboSet,
+  createTurboSet,
+  type TurboSetOptions
+} from './core/TurboSet'
+export {
+  TurboMultiMap,
+  createTurboMultiMap,
+  type TurboMultiMapOptions
+} from './core/TurboMultiMap'
+export {
+  TurboBiMap,
+  createTurboBiMap,
+  type TurboBiMapOptions,
+  type BiMapConflictPolicy
+} from './core/TurboBiMap'
+export {
+  TurboReplicatedMap,
+  createReplicatedTurboMap,
+  compareStamps,
+  type TurboReplicatedMapOptions,
+  type ReplicaStamp,
+  type ReplicatedEntryState,
+  type ReplicatedMapState
+} from './core/TurboReplicatedMap'
+
+// Diffs and patches
+export {
+  encodePatch,
+  decodePatch,
+  isTurboMapPatch,
+  valuesEqual,
+  type TurboMapDiff,
+  type TurboMapPatch
+} from './core/MapDiff'
+
+// Key mutation guards
+export {
+  deepFreeze,
+  snapshotKey,
+  type KeyMutationMode,
+  type KeyDrift
+} from './core/KeyMutation'
+
+// Secondary indexes
+export {
+  SecondaryIndex,
+  type IndexExtractor,
+  type SecondaryIndexStats
+} from './core/SecondaryIndex'
+
+// Change events
+export {
+  ChangeEmitter,
+  type TurboMapEventType,
+  type TurboMapChangeEvent,
+  type TurboMapListener,
+  type Unsubscribe
+} from './core/ChangeEmitter'
 
 // Async operations
 export { 
@@ -63,6 +178,36 @@ export {
   type PluginStats 
 } from './plugins/PluginManager'
 
+// Persistence
+export {
+  FilePersistence,
+  type FilePersistenceOptions
+} from './plugins/FilePersistence'
+export {
+  StoragePersistence,
+  isQuotaExceededError,
+  type StorageLike,
+  type StoragePersistenceOptions
+} from './plugins/StoragePersistence'
+export { type PersistenceRecord } from './plugins/PersistenceRecord'
+export {
+  WriteAheadLog,
+  type WalRecord,
+  type WalRecoveryReport,
+  type WalStatus
+} from './core/WriteAheadLog'
+
+// Cross-worker sync
+export {
+  WorkerSync,
+  compareClocks,
+  type SyncChannel,
+  type SyncMessage,
+  type SyncUpdate,
+  type VectorClock,
+  type WorkerSyncOptions
+} from './plugins/WorkerSync'
+
 // Diagnostics and monitoring
 export { 
   PerformanceMonitor,
@@ -80,16 +225,29 @@ export {
 import type { MapKey } from './utils/TypeUtils'
 import { AsyncTurboMap, type AsyncTurboMapLike } from './core/AsyncTurboMap'
 import { PluginManager, type TurboMapPlugin } from './plugins/PluginManager'
-import { globalSerializer } from './core/Serializer'
+import { globalSerializer, type SerializeOptions } from './core/Serializer'
 import { TieredCacheManager } from './core/CacheManager'
+import { createEvictionPolicy, type EvictionPolicyName } from './core/EvictionPolicy'
+import { globalTypedCodec } from './core/TypedCodec'
+import { globalBinaryCodec } from './core/BinaryCodec'
+import { valuesEqual, isTurboMapPatch, decodePatch, type TurboMapDiff, type TurboMapPatch } from './core/MapDiff'
+import { SecondaryIndex, type IndexExtractor, type SecondaryIndexStats } from './core/SecondaryIndex'
+import { SkipList } from './utils/SkipList'
+import { serializeKey } from './core/KeySerializer'
+import { KeySerializationError } from './core/KeyInjectivity'
+import { ChangeEmitter, type TurboMapEventType, type TurboMapChangeEvent, type TurboMapListener, type Unsubscribe } from './core/ChangeEmitter'
 import { globalErrorRecovery, ErrorType } from './utils/ErrorRecovery'
 import { globalDiagnostic, type PerformanceProfile, type MemoryDiagnostic, type ErrorAnalysis, type OptimizationSuggestion } from './utils/DiagnosticUtils'
 import { globalFastHasher } from './utils/FastHash'
+import type { SymbolIdentityMode } from './utils/SymbolRegistry'
+import { deepFreeze, snapshotKey, type KeyMutationMode, type KeyDrift } from './core/KeyMutation'
+import { WriteAheadLog, type WalRecord, type WalStatus } from './core/WriteAheadLog'
+import { setRecord, deleteRecord, clearRecord, applyRecord, type PersistenceRecord } from './plugins/PersistenceRecord'
 
 /**
  * Enhanced TurboMap configuration options
  */
-export interface EnhancedTurboMapOptions {
+export interface EnhancedTurboMapOptions<K extends MapKey = MapKey> {
   // Serialization options
   enableCache?: boolean
   cacheMaxSize?: number
@@ -123,6 +281,61 @@ export interface EnhancedTurboMapOptions {
   enableAsync?: boolean
   batchSize?: number
   maxConcurrency?: number
+
+  // Expiration options
+  defaultTtl?: number // ms, 0 disables expiration
+  expirationCheckInterval?: number // ms, 0 disables the background sweep
+
+  // Capacity options
+  maxEntries?: number // 0 means unbounded
+  evictionPolicy?: EvictionPolicyName
+
+  // Query options
+  keyIndexFields?: string[] // object key fields indexed for match()
+
+  // Key identity: only the projection is serialized, so keys that agree on it are equal
+  keyBy?: ((key: K) => unknown) | null
+  distinguishClasses?: boolean // class instances only match instances of the same class
+  symbolIdentity?: SymbolIdentityMode // how symbols not registered with Symbol.for() are told apart
+  keyMutation?: KeyMutationMode // guard against keys mutated after insertion
+
+  // Durability: every mutation is logged and fsynced before the map changes
+  writeAheadLog?: WriteAheadLog | null
+}
+
+/**
+ * Per-entry options for set()
+ */
+export interface EnhancedSetOptions {
+  ttl?: number // ms, overrides defaultTtl; 0 keeps the entry forever
+}
+
+/**
+ * Staged view of the map handed to transaction callbacks
+ */
+export interface TurboMapTransaction<K extends MapKey, V> {
+  set(key: K, value: V, options?: EnhancedSetOptions): this
+  get(key: K): V | undefined
+  has(key: K): boolean
+  delete(key: K): boolean
+  clear(): void
+}
+
+/**
+ * Operation staged by a transaction
+ */
+type TransactionOperation<K extends MapKey, V> =
+  | { type: 'set'; key: K; value: V; options: EnhancedSetOptions | undefined }
+  | { type: 'delete'; key: K }
+  | { type: 'clear' }
+
+/**
+ * Prior state of an entry touched while committing a transaction
+ */
+interface UndoRecord<K extends MapKey, V> {
+  key: K
+  value: V
+  expiresAt: number | undefined
 }
 
 /**
@@ -131,7 +344,7 @@ export interface EnhancedTurboMapOptions {
 export interface EnhancedTurboMapLike<K extends MapKey, V> {
   // Core Map interface
   readonly size: number
-  set(key: K, value: V): this
+  set(key: K, value: V, options?: EnhancedSetOptions): this
   get(key: K): V | undefined
   has(key: K): boolean
   delete(key: K): boolean
@@ -145,15 +358,30 @@ export interface EnhancedTurboMapLike<K extends MapKey, V> {
 
   // Enhanced core methods
   getSerializedKey(key: K): string
+  getExpiry(key: K): number | undefined // expiry time in ms; undefined without a TTL or entry
   
   // Batch operations
+  transaction<R>(callback: (tx: TurboMapTransaction<K, V>) => R): R
   setAll(entries: [K, V][]): this
   getAll(keys: K[]): (V | undefined)[]
   deleteAll(keys: K[]): boolean[]
   
+  // Change events
+  subscribe(listener: TurboMapListener<K, V>): Unsubscribe
+  on<T extends TurboMapEventType>(type: T, handler: (event: TurboMapChangeEvent<K, V, T>) => void): Unsubscribe
+  getSnapshot(): ReadonlyArray<readonly [K, V]>
+
+  // Diffs and patches
+  diff(other: Iterable<readonly [K, V]>): TurboMapDiff<K, V> // changes turning this map into other
+  applyPatch(patch: TurboMapDiff<K, V> | TurboMapPatch): this
+
   // Advanced queries
   findByValue(predicate: (value: V, key: K) => boolean): [K, V] | undefined
   filter(predicate: (value: V, key: K) => boolean): [K, V][]
+  createIndex(name: string, extractor: IndexExtractor<K, V>): this
+  lookup(name: string, indexValue: unknown): [K, V][]
+  dropIndex(name: string): boolean
+  match(partial: Record<string, unknown>): [K, V][]
   mapValues<U>(transform: (value: V, key: K) => U): EnhancedTurboMapLike<K, U>
   
   // Statistics and diagnostics
@@ -165,6 +393,8 @@ export interface EnhancedTurboMapLike<K extends MapKey, V> {
     cacheHitRate: number
     errorCount: number
     errorRate: number
+    expirations: number
+    evictions: number
     pluginStats?: unknown
     cacheStats?: unknown
     serializerStats?: unknown
@@ -173,6 +403,8 @@ export interface EnhancedTurboMapLike<K extends MapKey, V> {
     size: number
     internalMapSize: number
     keyMapSize: number
+    indexes: SecondaryIndexStats[]
+    driftedKeys: KeyDrift<K>[] // only tracked with keyMutation 'detect'
     config: unknown
     health: unknown
     diagnostics: unknown
@@ -191,6 +423,7 @@ export interface EnhancedTurboMapLike<K extends MapKey, V> {
     cacheHitRate: number
     inFallbackMode: boolean
     score: number
+    writeAheadLog: WalStatus | null
   }
   
   // Plugin management
@@ -215,33 +448,61 @@ export interface EnhancedTurboMapLike<K extends MapKey, V> {
   
   // Serialization
   serialize(): string
+  toBinary(): Uint8Array
+  fromBinary(bytes: Uint8Array): this
   clone(): EnhancedTurboMapLike<K, V>
   
   // Memory management
   cleanup(): void
   compact(): void
+  close(): void // stops background timers and closes the write-ahead log; the map is not written afterwards
+}
+
+/**
+ * Split the (entries?, options?) factory arguments
+ */
+function parseMapArguments<K extends MapKey, V>(
+  entriesOrOptions: readonly (readonly [K, V])[] | Iterable<readonly [K, V]> | EnhancedTurboMapOptions<K> | null | undefined,
+  optionsParam: EnhancedTurboMapOptions<K> | undefined
+): { entries: Iterable<readonly [K, V]> | null; options: EnhancedTurboMapOptions<K> } {
+  if (entriesOrOptions && (Symbol.iterator in Object(entriesOrOptions))) {
+    return { entries: entriesOrOptions as Iterable<readonly [K, V]>, options: optionsParam || {} }
+  }
+  if (entriesOrOptions && typeof entriesOrOptions === 'object') {
+    return { entries: null, options: entriesOrOptions as EnhancedTurboMapOptions<K> }
+  }
+  return { entries: null, options: {} }
+}
+
+/**
+ * Key ordering for sorted maps, following Array.prototype.sort conventions
+ */
+export type KeyComparator<K> = (a: K, b: K) => number
+
+/**
+ * Enhanced TurboMap that iterates in key order and answers range queries
+ */
+export interface SortedTurboMapLike<K extends MapKey, V> extends EnhancedTurboMapLike<K, V> {
+  first(): [K, V] | undefined
+  last(): [K, V] | undefined
+  floor(key: K): [K, V] | undefined // greatest entry at or below key
+  ceiling(key: K): [K, V] | undefined // least entry at or above key
+  range(from: K, to: K): [K, V][] // both bounds inclusive
+  mapValues<U>(transform: (value: V, key: K) => U): SortedTurboMapLike<K, U>
+  clone(): SortedTurboMapLike<K, V>
 }
 
 /**
  * Create enhanced TurboMap with all optimizations
  */
 export function createEnhancedTurboMap<K extends MapKey, V>(
-  entriesOrOptions?: readonly (readonly [K, V])[] | Iterable<readonly [K, V]> | EnhancedTurboMapOptions | null,
-  optionsParam?: EnhancedTurboMapOptions
+  entriesOrOptions?: readonly (readonly [K, V])[] | Iterable<readonly [K, V]> | EnhancedTurboMapOptions<K> | null,
+  optionsParam?: EnhancedTurboMapOptions<K>
 ): EnhancedTurboMapLike<K, V> {
-  // Parse arguments
-  let entries: Iterable<readonly [K, V]> | null = null
-  let options: EnhancedTurboMapOptions = {}
-
-  if (entriesOrOptions && (Symbol.iterator in Object(entriesOrOptions))) {
-    entries = entriesOrOptions as Iterable<readonly [K, V]>
-    options = optionsParam || {}
-  } else if (entriesOrOptions && typeof entriesOrOptions === 'object') {
-    options = entriesOrOptions as EnhancedTurboMapOptions
-  }
+  const { entries, options } = parseMapArguments(entriesOrOptions, optionsParam)
 
   // Default options
-  const config: Required<EnhancedTurboMapOptions> = {
+  const config: Required<EnhancedTurboMapOptions<K>> = {
     enableCache: true,
     cacheMaxSize: 10000,
     enableAdaptiveSerialization: true,
@@ -262,6 +523,16 @@ export function createEnhancedTurboMap<K extends MapKey, V>(
     enableAsync: true,
     batchSize: 100,
     maxConcurrency: 10,
+    defaultTtl: 0,
+    expirationCheckInterval: 60000, // 1 minute
+    maxEntries: 0,
+    evictionPolicy: 'lru',
+    keyIndexFields: [],
+    keyBy: null,
+    distinguishClasses: false,
+    symbolIdentity: 'collapse',
+    keyMutation: 'none',
+    writeAheadLog: null,
     ...options
   }
 
@@ -273,12 +544,259 @@ export function createEnhancedTurboMap<K extends MapKey, V>(
   )
 }
 
+/**
+ * Rebuild a map from the output of serialize(), restoring key and value types
+ */
+createEnhancedTurboMap.deserialize = function deserialize<K extends MapKey, V>(
+  text: string,
+  options?: EnhancedTurboMapOptions<K>
+): EnhancedTurboMapLike<K, V> {
+  const entries = globalTypedCodec.decodeEntries(JSON.parse(text)) as [K, V][]
+  return createEnhancedTurboMap<K, V>(entries, options ?? {})
+}
+
+/**
+ * Rebuild a map from the output of toBinary()
+ */
+createEnhancedTurboMap.fromBinary = function fromBinary<K extends MapKey, V>(
+  bytes: Uint8Array,
+  options?: EnhancedTurboMapOptions<K>
+): EnhancedTurboMapLike<K, V> {
+  const entries = globalBinaryCodec.decodeEntries(bytes) as [K, V][]
+  return createEnhancedTurboMap<K, V>(entries, options ?? {})
+}
+
+/**
+ * Recover the write-ahead log at a path and rebuild the map it describes; the map keeps
+ * logging to it. getHealthStatus().writeAheadLog reports what recovery found.
+ */
+createEnhancedTurboMap.recover = async function recover<K extends MapKey, V>(
+  path: string,
+  options?: EnhancedTurboMapOptions<K>
+): Promise<EnhancedTurboMapLike<K, V>> {
+  const writeAheadLog = await WriteAheadLog.open(path)
+  return createEnhancedTurboMap<K, V>({ ...options, writeAheadLog })
+}
+
+/**
+ * Entry in a sorted map's order; probes use bound -1/1 to sit before/after equal keys
+ */
+interface SortedEntry<K, V> {
+  key: K
+  serializedKey: string
+  value: V | undefined
+  bound: -1 | 0 | 1
+}
+
+/**
+ * Create an enhanced TurboMap whose keys are kept ordered by a comparator
+ */
+export function createSortedTurboMap<K extends MapKey, V>(
+  comparator: KeyComparator<K>,
+  entriesOrOptions?: readonly (readonly [K, V])[] | Iterable<readonly [K, V]> | EnhancedTurboMapOptions<K> | null,
+  optionsParam?: EnhancedTurboMapOptions<K>
+): SortedTurboMapLike<K, V> {
+  if (typeof comparator !== 'function') {
+    throw new Error('createSortedTurboMap requires a comparator function')
+  }
+  const { entries, options } = parseMapArguments(entriesOrOptions, optionsParam)
+  // The order is found through the comparator, so a mutated key cannot be located to move it
+  if (options.keyMutation === 'detect') {
+    throw new Error("createSortedTurboMap cannot re-key mutated keys; use keyMutation 'freeze' or 'snapshot'")
+  }
+  // Recovered entries would be replayed before the order is listening
+  if (options.writeAheadLog) {
+    throw new Error('createSortedTurboMap does not support writeAheadLog')
+  }
+  const base = createEnhancedTurboMap<K, V>(options)
+
+  // Keys the comparator considers equal are ordered by their serialized form
+  const order = new SkipList<SortedEntry<K, V>>((a, b) => {
+    const result = comparator(a.key, b.key)
+    if (result !== 0) return result
+    if (a.bound !== b.bound) return a.bound - b.bound
+    return a.serializedKey < b.serializedKey ? -1 : a.serializedKey > b.serializedKey ? 1 : 0
+  })
+  const positions = new Map<string, SortedEntry<K, V>>()
+
+  const unlink = (serializedKey: string): void => {
+    const entry = positions.get(serializedKey)
+    if (entry) {
+      order.remove(entry)
+      positions.delete(serializedKey)
+    }
+  }
+
+  // The order follows committed changes, including evictions and expirations
+  base.subscribe(event => {
+    if (event.type === 'clear') {
+      order.clear()
+      positions.clear()
+      return
+    }
+    const key = event.key as K
+    const serializedKey = base.getSerializedKey(key)
+    unlink(serializedKey)
+    if (event.type === 'set') {
+      const entry: SortedEntry<K, V> = { key, serializedKey, value: event.newValue, bound: 0 }
+      order.insert(entry)
+      positions.set(serializedKey, entry)
+    }
+  })
+
+  const probe = (key: K, bound: -1 | 1): SortedEntry<K, V> => ({ key, serializedKey: '', value: undefined, bound })
+  const toEntry = (entry: SortedEntry<K, V> | undefined): [K, V] | undefined => {
+    return entry ? [entry.key, entry.value as V] : undefined
+  }
+  // Reading size drops expired entries, which removes them from the order
+  const purgeExpired = (): void => {
+    void base.size
+  }
+  let snapshot: ReadonlyArray<readonly [K, V]> | null = null
+  let snapshotSource: ReadonlyArray<readonly [K, V]> | null = null
+
+  const sortedMethods = {
+    get [Symbol.toStringTag]() { return 'SortedTurboMap' },
+
+    // The base map returns itself from these; chaining should stay on the sorted view
+    set(key: K, value: V, options?: EnhancedSetOptions): SortedTurboMapLike<K, V> {
+      base.set(key, value, options)
+      return sorted
+    },
+
+    setAll(entries: [K, V][]): SortedTurboMapLike<K, V> {
+      base.setAll(entries)
+      return sorted
+    },
+
+    diff(other: Iterable<readonly [K, V]>): TurboMapDiff<K, V> {
+      const result = base.diff(other)
+      const byKey = (a: readonly [K, ...unknown[]], b: readonly [K, ...unknown[]]): number => comparator(a[0], b[0])
+      result.added.sort(byKey)
+      result.removed.sort(byKey)
+      result.changed.sort(byKey)
+      return result
+    },
+
+    applyPatch(patch: TurboMapDiff<K, V> | TurboMapPatch): SortedTurboMapLike<K, V> {
+      base.applyPatch(patch)
+      return sorted
+    },
+
+    *entries(): IterableIterator<[K, V]> {
+      purgeExpired()
+      for (const entry of order) {
+        yield [entry.key, entry.value as V]
+      }
+    },
+
+    *keys(): IterableIterator<K> {
+      for (const [key] of sorted.entries()) {
+        yield key
+      }
+    },
+
+    *values(): IterableIterator<V> {
+      for (const [, value] of sorted.entries()) {
+        yield value
+      }
+    },
+
+    forEach(callback: (value: V, key: K, map: SortedTurboMapLike<K, V>) => void): void {
+      for (const [key, value] of sorted.entries()) {
+        callback(value, key, sorted)
+      }
+    },
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+      return sorted.entries()
+    },
+
+    first(): [K, V] | undefined {
+      purgeExpired()
+      return toEntry(order.first())
+    },
+
+    last(): [K, V] | undefined {
+      purgeExpired()
+      return toEntry(order.last())
+    },
+
+    floor(key: K): [K, V] | undefined {
+      purgeExpired()
+      return toEntry(order.floor(probe(key, 1)))
+    },
+
+    ceiling(key: K): [K, V] | undefined {
+      purgeExpired()
+      return toEntry(order.ceiling(probe(key, -1)))
+    },
+
+    range(from: K, to: K): [K, V][] {
+      purgeExpired()
+      return Array.from(order.range(probe(from, -1), probe(to, 1)), entry => [entry.key, entry.value as V])
+    },
+
+    getSnapshot(): ReadonlyArray<readonly [K, V]> {
+      // The base snapshot is rebuilt after every change, so it tells when this one is stale
+      const source = base.getSnapshot()
+      if (!snapshot || snapshotSource !== source) {
+        snapshot = Object.freeze(Array.from(sorted.entries(), entry => Object.freeze(entry)))
+        snapshotSource = source
+      }
+      return snapshot
+    },
+
+    mapValues<U>(transform: (value: V, key: K) => U): SortedTurboMapLike<K, U> {
+      return createSortedTurboMap<K, U>(comparator, Array.from(sorted.entries(), ([key, value]) => [key, transform(value, key)] as const), options)
+    },
+
+    serialize(): string {
+      return globalErrorRecovery.executeWithRecovery(
+        () => JSON.stringify(globalTypedCodec.encodeEntries(sorted.entries())),
+        () => {
+          console.warn('SortedTurboMap: Serialization failed')
+          return JSON.stringify(globalTypedCodec.encodeEntries([]))
+        },
+        'serialize',
+        ErrorType.SERIALIZATION
+      )
+    },
+
+    toBinary(): Uint8Array {
+      return globalErrorRecovery.executeWithRecovery(
+        () => globalBinaryCodec.encodeEntries(sorted.entries()),
+        () => {
+          console.warn('SortedTurboMap: Binary serialization failed')
+          return globalBinaryCodec.encodeEntries([])
+        },
+        'toBinary',
+        ErrorType.SERIALIZATION
+      )
+    },
+
+    clone(): SortedTurboMapLike<K, V> {
+      return createSortedTurboMap<K, V>(comparator, Array.from(sorted.entries()), options)
+    }
+  }
+
+  // Everything else is inherited from the base map, so its methods see the ordered iteration
+  const sorted = Object.create(base, Object.getOwnPropertyDescriptors(sortedMethods)) as SortedTurboMapLike<K, V>
+
+  if (entries) {
+    for (const [key, value] of entries) {
+      sorted.set(key, value)
+    }
+  }
+  return sorted
+}
+
 /**
  * Internal enhanced TurboMap creation
  */
 function createEnhancedTurboMapInternal<K extends MapKey, V>(
   entries: Iterable<readonly [K, V]> | null,
-  config: Required<EnhancedTurboMapOptions>
+  config: Required<EnhancedTurboMapOptions<K>>
 ): EnhancedTurboMapLike<K, V> {
   // Core storage
   const internalMap = new Map<string, V>()
@@ -298,20 +816,203 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
     promoteThreshold: config.promoteThreshold
   }) : null
 
+  const evictionPolicy = config.maxEntries > 0 ? createEvictionPolicy(config.evictionPolicy) : null
+  const emitter = new ChangeEmitter<K, V>()
+  const indexes = new Map<string, SecondaryIndex<K, V>>()
+
+  // Key-field indexes bucket object keys by the serialized value of a single field
+  const MISSING_FIELD = '\u0000missing'
+  const keyFieldIndexes = new Map<string, SecondaryIndex<K, V>>()
+  for (const field of config.keyIndexFields) {
+    keyFieldIndexes.set(field, new SecondaryIndex<K, V>(
+      `key.${field}`,
+      (_value, key) => key,
+      key => globalSerializer.serializeFields(key)?.get(field) ?? MISSING_FIELD
+    ))
+  }
+
+  // Snapshot for subscribe/getSnapshot consumers, rebuilt lazily after changes
+  let version = 0
+  let snapshot: ReadonlyArray<readonly [K, V]> | null = null
+  let snapshotVersion = -1
+
+  // Transaction state: after-effects are deferred and touched entries journaled until commit
+  let inTransaction = false
+  let staging = false // a transaction callback is running
+  let pendingEffects: Array<() => void> | null = null
+  let journal: Map<string, UndoRecord<K, V> | null> | null = null
+
+  /**
+   * Writes made on the map while a transaction callback runs would bypass its staging and rollback
+   */
+  const assertNotStaging = (method: string): void => {
+    if (staging) {
+      throw new Error(`EnhancedTurboMap: Use the transaction handle instead of ${method}() inside transaction()`)
+    }
+  }
+
+  const afterEffect = (effect: () => void): void => {
+    if (pendingEffects) {
+      pendingEffects.push(effect)
+    } else {
+      effect()
+    }
+  }
+
+  const emitChange = (type: TurboMapEventType, key: K | undefined, oldValue: V | undefined, newValue: V | undefined): void => {
+    version++
+    if (emitter.hasListeners()) {
+      const event = { type, key, oldValue, newValue, timestamp: Date.now() }
+      afterEffect(() => emitter.emit(event))
+    }
+  }
+
   // Statistics
   let operationCount = 0
   let cacheHits = 0
   let cacheMisses = 0
   let errorCount = 0
+  let expirations = 0
+  let evictions = 0
+
+  // Expiration tracking (serialized key -> expiresAt)
+  const expiries = new Map<string, number>()
+  let sweepTimer: ReturnType<typeof setInterval> | null = null
+  let cleanupTimer: ReturnType<typeof setInterval> | null = null
+  let closed = false
+
+  // Write-ahead logging; records inside a transaction are fsynced with its commit record
+  const wal = config.writeAheadLog
+  // Maps derived from this one share its configuration but not its log
+  const derivedConfig: Required<EnhancedTurboMapOptions<K>> = { ...config, writeAheadLog: null }
+  let replaying = false
+  // Records are built lazily, so maps without a log never encode keys
+  const logWrite = (record: () => WalRecord): void => {
+    if (wal && !replaying) {
+      wal.append(record(), journal === null)
+    }
+  }
+
+  const recordUndo = (serializedKey: string): void => {
+    if (!journal || journal.has(serializedKey)) return
+    journal.set(serializedKey, internalMap.has(serializedKey) ? {
+      key: keyMap.get(serializedKey) as K,
+      value: internalMap.get(serializedKey) as V,
+      expiresAt: expiries.get(serializedKey)
+    } : null)
+  }
+
+  // Drops an entry from storage and every auxiliary structure
+  const removeEntry = (serializedKey: string): void => {
+    recordUndo(serializedKey)
+    internalMap.delete(serializedKey)
+    keyMap.delete(serializedKey)
+    expiries.delete(serializedKey)
+    evictionPolicy?.recordRemove(serializedKey)
+    for (const index of indexes.values()) {
+      index.remove(serializedKey)
+    }
+    for (const index of keyFieldIndexes.values()) {
+      index.remove(serializedKey)
+    }
+  }
+
+  const indexEntry = (serializedKey: string, key: K, value: V): void => {
+    for (const index of indexes.values()) {
+      index.add(serializedKey, key, value)
+    }
+    for (const index of keyFieldIndexes.values()) {
+      index.add(serializedKey, key, value)
+    }
+  }
+
+  const expireEntry = (serializedKey: string): void => {
+    const expiredKey = keyMap.get(serializedKey)
+    const expiredValue = internalMap.get(serializedKey)
+    removeEntry(serializedKey)
+    expirations++
+    emitChange('evict', expiredKey, expiredValue, undefined)
+
+    afterEffect(() => pluginManager?.executeAfter('onExpire', {
+      operation: 'expire',
+      key: expiredKey,
+      value: expiredValue,
+      metadata: undefined,
+      timestamp: Date.now()
+    }, expiredKey, expiredValue))
+  }
+
+  // Expired entries are treated as absent and removed on access
+  const isExpired = (serializedKey: string, now: number = Date.now()): boolean => {
+    const expiresAt = expiries.get(serializedKey)
+    if (expiresAt === undefined || expiresAt > now) {
+      return false
+    }
+    expireEntry(serializedKey)
+    return true
+  }
+
+  const purgeExpired = (): void => {
+    if (expiries.size === 0) return
+    const now = Date.now()
+    for (const serializedKey of Array.from(expiries.keys())) {
+      isExpired(serializedKey, now)
+    }
+  }
+
+  // Evict entries chosen by the policy until the map fits maxEntries
+  const enforceCapacity = (): void => {
+    // Replayed logs already hold the evictions that were made
+    if (!evictionPolicy || replaying || internalMap.size <= config.maxEntries) return
+    purgeExpired()
+    while (internalMap.size > config.maxEntries) {
+      const victim = evictionPolicy.selectVictim()
+      if (victim === undefined) break
+
+      const evictedKey = keyMap.get(victim)
+      const evictedValue = internalMap.get(victim)
+      logWrite(() => deleteRecord(evictedKey))
+      removeEntry(victim)
+      evictions++
+      emitChange('evict', evictedKey, evictedValue, undefined)
+
+      afterEffect(() => pluginManager?.executeAfter('onEvict', {
+        operation: 'evict',
+        key: evictedKey,
+        value: evictedValue,
+        metadata: undefined,
+        timestamp: Date.now()
+      }, evictedKey, evictedValue))
+    }
+  }
+
+  const ensureSweeper = (): void => {
+    if (closed || sweepTimer || config.expirationCheckInterval <= 0) return
+    sweepTimer = setInterval(() => {
+      purgeExpired()
+      if (expiries.size === 0 && sweepTimer) {
+        clearInterval(sweepTimer)
+        sweepTimer = null
+      }
+    }, config.expirationCheckInterval)
+    // Never keep the process alive just to sweep
+    const timer = sweepTimer as { unref?: () => void }
+    timer.unref?.()
+  }
+
+  const serializeOptions: SerializeOptions = {
+    distinguishClasses: config.distinguishClasses,
+    symbolIdentity: config.symbolIdentity
+  }
 
   // Serialization function with error recovery
-  const serialize = (key: K): string => {
+  const serializeValue = (key: unknown, options: SerializeOptions = serializeOptions): string => {
     return globalErrorRecovery.executeWithRecovery(
       () => {
         const startTime = config.trackPerformance ? performance.now() : 0
         
         // Try cache first
-        if (cache) {
+        if (cache && !options.refreshCache) {
           // Generate appropriate cache key based on type
           let cacheKey: string
           if (typeof key === 'object' && key !== null) {
@@ -322,8 +1023,8 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
             // Each symbol instance should be serialized fresh
             cacheKey = `symbol_skip_${Math.random()}`
           } else {
-            // For primitives, use string representation
-            cacheKey = String(key)
+            // For primitives, use the type and string representation, so 1 and "1" differ
+            cacheKey = `${typeof key}:${String(key)}`
           }
           
           // Only use cache for non-symbol keys
@@ -338,15 +1039,13 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
         }
 
         // Use adaptive serializer
-        const result = config.enableAdaptiveSerialization 
-          ? globalSerializer.serialize(key)
-          : JSON.stringify(key)
+        const result = serializeKey(key, config.enableAdaptiveSerialization, options)
 
         // Cache result (skip caching for symbols to preserve uniqueness)
         if (cache && typeof key !== 'symbol') {
           const cacheKey = typeof key === 'object' && key !== null 
             ? `obj_${globalFastHasher.fastHash(key) || Date.now()}_${Math.random()}`
-            : String(key)
+            : `${typeof key}:${String(key)}`
           cache.set(cacheKey, result)
         }
 
@@ -359,63 +1058,290 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
       },
       () => {
         errorCount++
-        // Fallback serialization
-        try {
-          return JSON.stringify(key)
-        } catch {
-          return `[SerializationError:${typeof key}:${Date.now()}]`
-        }
+        // No fallback: a key under any other serialization could never be found again
+        throw new KeySerializationError(typeof key)
       },
       'serialize',
       ErrorType.SERIALIZATION
     )
   }
 
+  // Map keys are serialized through the keyBy projection when one is configured
+  const keyBy = config.keyBy
+  const serialize = keyBy
+    ? (key: K): string => serializeValue(keyBy(key))
+    : (key: K): string => serializeValue(key)
+
+  // Serialization of a key being stored, which registers keys that define their own equality
+  const storeOptions: SerializeOptions = { ...serializeOptions, registerKeys: true }
+  const serializeStored = keyBy
+    ? (key: K): string => serializeValue(keyBy(key), storeOptions)
+    : (key: K): string => serializeValue(key, storeOptions)
+
+  // Serialization of a key as it is now, bypassing results cached before a mutation
+  const refreshOptions: SerializeOptions = { ...serializeOptions, refreshCache: true }
+  const serializeCurrent = keyBy
+    ? (key: K): string => serializeValue(keyBy(key), refreshOptions)
+    : (key: K): string => serializeValue(key, refreshOptions)
+
+  // Keys are frozen or copied on insertion when the map guards against mutation
+  const protectKey = (key: K): K => {
+    if (config.keyMutation === 'freeze') return deepFreeze(key)
+    if (config.keyMutation === 'snapshot') return snapshotKey(key)
+    return key
+  }
+
+  const findDriftedKeys = (): KeyDrift<K>[] => {
+    const drifted: KeyDrift<K>[] = []
+    for (const [serializedKey, key] of keyMap) {
+      const currentSerializedKey = serializeCurrent(key)
+      if (currentSerializedKey !== serializedKey) {
+        drifted.push({ key, serializedKey, currentSerializedKey })
+      }
+    }
+    return drifted
+  }
+
+  // Move a mutated entry to its current serialized key; false when another entry holds it
+  const rekeyEntry = ({ key, serializedKey, currentSerializedKey }: KeyDrift<K>): boolean => {
+    if (internalMap.has(currentSerializedKey)) return false
+    const value = internalMap.get(serializedKey) as V
+    const expiresAt = expiries.get(serializedKey)
+    removeEntry(serializedKey)
+    recordUndo(currentSerializedKey)
+    internalMap.set(currentSerializedKey, value)
+    keyMap.set(currentSerializedKey, key)
+    indexEntry(currentSerializedKey, key, value)
+    if (expiresAt !== undefined) {
+      expiries.set(currentSerializedKey, expiresAt)
+    }
+    evictionPolicy?.recordInsert(currentSerializedKey)
+    return true
+  }
+
+  function* liveRecords(): IterableIterator<PersistenceRecord> {
+    for (const [serializedKey, value] of internalMap) {
+      yield setRecord(keyMap.get(serializedKey), value, expiries.get(serializedKey))
+    }
+  }
+
+  // Core mutations; public methods wrap these with error recovery
+  const applySet = (key: K, value: V, options?: EnhancedSetOptions): void => {
+    operationCount++
+    const startTime = config.trackPerformance ? performance.now() : 0
+
+    // Plugin before hook
+    const beforeResult = pluginManager?.executeBefore('beforeSet', {
+      operation: 'set',
+      key,
+      value,
+      metadata: undefined,
+      timestamp: Date.now()
+    }, key, value) as { key: K; value: V } | null
+
+    // executeBefore hands back the key itself when no plugin transformed the entry
+    const transformed = (beforeResult as unknown) !== key ? beforeResult : null
+    const finalKey = protectKey(transformed?.key ?? key)
+    const finalValue = transformed?.value ?? value
+
+    const serializedKey = serializeStored(finalKey)
+    const oldValue = isExpired(serializedKey) ? undefined : internalMap.get(serializedKey)
+    const ttl = options?.ttl ?? config.defaultTtl
+    const expiresAt = ttl > 0 && Number.isFinite(ttl) ? Date.now() + ttl : undefined
+
+    logWrite(() => setRecord(finalKey, finalValue, expiresAt))
+    recordUndo(serializedKey)
+    internalMap.set(serializedKey, finalValue)
+    keyMap.set(serializedKey, finalKey)
+    indexEntry(serializedKey, finalKey, finalValue)
+
+    if (expiresAt !== undefined) {
+      expiries.set(serializedKey, expiresAt)
+      ensureSweeper()
+    } else {
+      expiries.delete(serializedKey)
+    }
+
+    // Pick victims before the policy sees the new entry, so LFU never evicts it
+    enforceCapacity()
+    evictionPolicy?.recordInsert(serializedKey)
+    emitChange('set', finalKey, oldValue, finalValue)
+
+    // Plugin after hook
+    afterEffect(() => pluginManager?.executeAfter('afterSet', {
+      operation: 'set',
+      key: finalKey,
+      value: finalValue,
+      metadata: undefined,
+      timestamp: Date.now()
+    }, finalKey, finalValue, expiresAt))
+
+    // Track performance
+    if (config.trackPerformance) {
+      globalDiagnostic.trackOperation('set', performance.now() - startTime)
+    }
+  }
+
+  const applyDelete = (key: K): boolean => {
+    operationCount++
+    const startTime = config.trackPerformance ? performance.now() : 0
+
+    // Plugin before hook
+    const beforeResult = pluginManager?.executeBefore('beforeDelete', {
+      operation: 'delete',
+      key,
+      value: undefined,
+      metadata: undefined,
+      timestamp: Date.now()
+    }, key) as K | null
+
+    const finalKey = beforeResult ?? key
+    const serializedKey = serialize(finalKey)
+    const deleted = !isExpired(serializedKey) && internalMap.has(serializedKey)
+    
+    if (deleted) {
+      const oldValue = internalMap.get(serializedKey)
+      logWrite(() => deleteRecord(finalKey))
+      removeEntry(serializedKey)
+      emitChange('delete', finalKey, oldValue, undefined)
+    }
+
+    // Plugin after hook
+    afterEffect(() => pluginManager?.executeAfter('afterDelete', {
+      operation: 'delete',
+      key: finalKey,
+      value: undefined,
+      metadata: undefined,
+      timestamp: Date.now()
+    }, finalKey, deleted))
+
+    // Track performance
+    if (config.trackPerformance) {
+      globalDiagnostic.trackOperation('delete', performance.now() - startTime)
+    }
+
+    return deleted
+  }
+
+  const applyClear = (): void => {
+    operationCount++
+
+    // Plugin before hook
+    const shouldClear = pluginManager?.executeBefore('beforeClear', {
+      operation: 'clear',
+      key: undefined,
+      value: undefined,
+      metadata: undefined,
+      timestamp: Date.now()
+    }) !== false
+
+    if (shouldClear) {
+      logWrite(clearRecord)
+      if (journal) {
+        for (const serializedKey of internalMap.keys()) {
+          recordUndo(serializedKey)
+        }
+      }
+      internalMap.clear()
+      keyMap.clear()
+      expiries.clear()
+      evictionPolicy?.clear()
+      for (const index of indexes.values()) {
+        index.clear()
+      }
+      for (const index of keyFieldIndexes.values()) {
+        index.clear()
+      }
+      emitChange('clear', undefined, undefined, undefined)
+
+      // Plugin after hook
+      afterEffect(() => pluginManager?.executeAfter('afterClear', {
+        operation: 'clear',
+        key: undefined,
+        value: undefined,
+        metadata: undefined,
+        timestamp: Date.now()
+      }))
+    }
+  }
+
+  // Restores every entry touched by a failed commit
+  const rollback = (undo: Map<string, UndoRecord<K, V> | null>): void => {
+    for (const [serializedKey, record] of undo) {
+      removeEntry(serializedKey)
+      if (record) {
+        internalMap.set(serializedKey, record.value)
+        keyMap.set(serializedKey, record.key)
+        indexEntry(serializedKey, record.key, record.value)
+        if (record.expiresAt !== undefined) {
+          expiries.set(serializedKey, record.expiresAt)
+        }
+        evictionPolicy?.recordInsert(serializedKey)
+      }
+    }
+    version++
+  }
+
+  const createTransaction = (): {
+    tx: TurboMapTransaction<K, V>
+    operations: TransactionOperation<K, V>[]
+  } => {
+    const operations: TransactionOperation<K, V>[] = []
+    // Staged view of touched keys; null marks a staged delete
+    const staged = new Map<string, { key: K; value: V } | null>()
+    let cleared = false
+
+    const tx: TurboMapTransaction<K, V> = {
+      set(key: K, value: V, options?: EnhancedSetOptions) {
+        staged.set(serializeStored(key), { key, value })
+        operations.push({ type: 'set', key, value, options })
+        return tx
+      },
+      get(key: K): V | undefined {
+        const serializedKey = serialize(key)
+        if (staged.has(serializedKey)) {
+          return staged.get(serializedKey)?.value
+        }
+        return cleared ? undefined : enhancedMap.get(key)
+      },
+      has(key: K): boolean {
+        const serializedKey = serialize(key)
+        if (staged.has(serializedKey)) {
+          return staged.get(serializedKey) !== null
+        }
+        return !cleared && enhancedMap.has(key)
+      },
+      delete(key: K): boolean {
+        const existed = tx.has(key)
+        staged.set(serialize(key), null)
+        operations.push({ type: 'delete', key })
+        return existed
+      },
+      clear(): void {
+        staged.clear()
+        cleared = true
+        operations.push({ type: 'clear' })
+      }
+    }
+
+    return { tx, operations }
+  }
+
   // Create enhanced map instance
   const enhancedMap: EnhancedTurboMapLike<K, V> = {
     [Symbol.toStringTag]: 'EnhancedTurboMap',
 
     // Core Map interface
     get size(): number {
+      purgeExpired()
       return internalMap.size
     },
 
-    set(key: K, value: V): EnhancedTurboMapLike<K, V> {
+    set(key: K, value: V, options?: EnhancedSetOptions): EnhancedTurboMapLike<K, V> {
+      assertNotStaging('set')
       return globalErrorRecovery.executeWithRecovery(
         () => {
-          operationCount++
-          const startTime = config.trackPerformance ? performance.now() : 0
-
-          // Plugin before hook
-          const beforeResult = pluginManager?.executeBefore('beforeSet', {
-            operation: 'set',
-            key,
-            value,
-            metadata: undefined,
-            timestamp: Date.now()
-          }, key, value) as { key: K; value: V } | null
-
-          const finalKey = beforeResult?.key ?? key
-          const finalValue = beforeResult?.value ?? value
-
-          const serializedKey = serialize(finalKey)
-          internalMap.set(serializedKey, finalValue)
-          keyMap.set(serializedKey, finalKey)
-
-          // Plugin after hook
-          pluginManager?.executeAfter('afterSet', {
-            operation: 'set',
-            key: finalKey,
-            value: finalValue,
-            metadata: undefined,
-            timestamp: Date.now()
-          }, finalKey, finalValue)
-
-          // Track performance
-          if (config.trackPerformance) {
-            globalDiagnostic.trackOperation('set', performance.now() - startTime)
-          }
-
+          applySet(key, value, options)
           return enhancedMap
         },
         () => {
@@ -445,7 +1371,10 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
 
           const finalKey = beforeResult ?? key
           const serializedKey = serialize(finalKey)
-          const value = internalMap.get(serializedKey)
+          const value = isExpired(serializedKey) ? undefined : internalMap.get(serializedKey)
+          if (value !== undefined) {
+            evictionPolicy?.recordAccess(serializedKey)
+          }
 
           // Plugin after hook - only call if we have plugins
           let finalValue = value
@@ -482,7 +1411,7 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
         () => {
           operationCount++
           const serializedKey = serialize(key)
-          return internalMap.has(serializedKey)
+          return !isExpired(serializedKey) && internalMap.has(serializedKey)
         },
         () => {
           errorCount++
@@ -495,44 +1424,9 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
     },
 
     delete(key: K): boolean {
+      assertNotStaging('delete')
       return globalErrorRecovery.executeWithRecovery(
-        () => {
-          operationCount++
-          const startTime = config.trackPerformance ? performance.now() : 0
-
-          // Plugin before hook
-          const beforeResult = pluginManager?.executeBefore('beforeDelete', {
-            operation: 'delete',
-            key,
-            value: undefined,
-            metadata: undefined,
-            timestamp: Date.now()
-          }, key) as K | null
-
-          const finalKey = beforeResult ?? key
-          const serializedKey = serialize(finalKey)
-          const deleted = internalMap.delete(serializedKey)
-          
-          if (deleted) {
-            keyMap.delete(serializedKey)
-          }
-
-          // Plugin after hook
-          pluginManager?.executeAfter('afterDelete', {
-            operation: 'delete',
-            key: finalKey,
-            value: undefined,
-            metadata: undefined,
-            timestamp: Date.now()
-          }, finalKey, deleted)
-
-          // Track performance
-          if (config.trackPerformance) {
-            globalDiagnostic.trackOperation('delete', performance.now() - startTime)
-          }
-
-          return deleted
-        },
+        () => applyDelete(key),
         () => {
           errorCount++
           console.warn('EnhancedTurboMap: Delete operation failed, returning false')
@@ -544,33 +1438,9 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
     },
 
     clear(): void {
+      assertNotStaging('clear')
       globalErrorRecovery.executeWithRecovery(
-        () => {
-          operationCount++
-
-          // Plugin before hook
-          const shouldClear = pluginManager?.executeBefore('beforeClear', {
-            operation: 'clear',
-            key: undefined,
-            value: undefined,
-            metadata: undefined,
-            timestamp: Date.now()
-          }) !== false
-
-          if (shouldClear) {
-            internalMap.clear()
-            keyMap.clear()
-
-            // Plugin after hook
-            pluginManager?.executeAfter('afterClear', {
-              operation: 'clear',
-              key: undefined,
-              value: undefined,
-              metadata: undefined,
-              timestamp: Date.now()
-            })
-          }
-        },
+        () => applyClear(),
         () => {
           errorCount++
           console.warn('EnhancedTurboMap: Clear operation failed')
@@ -585,26 +1455,157 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
       return serialize(key)
     },
 
-    setAll(entries: [K, V][]): EnhancedTurboMapLike<K, V> {
-      return globalErrorRecovery.executeWithRecovery(
-        () => {
-          if (!Array.isArray(entries)) {
-            throw new Error('setAll requires an array of entries')
+    getExpiry(key: K): number | undefined {
+      const serializedKey = serialize(key)
+      return isExpired(serializedKey) ? undefined : expiries.get(serializedKey)
+    },
+
+    // Change events
+    subscribe(listener: TurboMapListener<K, V>): Unsubscribe {
+      return emitter.subscribe(listener)
+    },
+
+    on<T extends TurboMapEventType>(type: T, handler: (event: TurboMapChangeEvent<K, V, T>) => void): Unsubscribe {
+      return emitter.on(type, handler)
+    },
+
+    getSnapshot(): ReadonlyArray<readonly [K, V]> {
+      purgeExpired()
+      if (!snapshot || snapshotVersion !== version) {
+        snapshot = Object.freeze(Array.from(enhancedMap.entries(), entry => Object.freeze(entry)))
+        snapshotVersion = version
+      }
+      return snapshot
+    },
+
+    diff(other: Iterable<readonly [K, V]>): TurboMapDiff<K, V> {
+      // Entries are paired by serialized key, so only matching values need a structural compare
+      const pending = new Map<string, readonly [K, V]>()
+      for (const entry of other) {
+        pending.set(serialize(entry[0]), entry)
+      }
+
+      purgeExpired()
+      const result: TurboMapDiff<K, V> = { added: [], removed: [], changed: [] }
+      for (const [serializedKey, value] of internalMap) {
+        const key = keyMap.get(serializedKey) as K
+        const entry = pending.get(serializedKey)
+        if (!entry) {
+          result.removed.push([key, value])
+          continue
+        }
+        pending.delete(serializedKey)
+        if (!valuesEqual(value, entry[1])) {
+          result.changed.push([key, value, entry[1]])
+        }
+      }
+      for (const [key, value] of pending.values()) {
+        result.added.push([key, value])
+      }
+      return result
+    },
+
+    applyPatch(patch: TurboMapDiff<K, V> | TurboMapPatch) {
+      // Decode first so a corrupt patch leaves the current contents untouched
+      const diff = isTurboMapPatch(patch) ? decodePatch(patch) as TurboMapDiff<K, V> : patch
+      if (!diff || !Array.isArray(diff.added) || !Array.isArray(diff.removed) || !Array.isArray(diff.changed)) {
+        throw new Error('applyPatch requires a diff or a serialized patch')
+      }
+      enhancedMap.transaction(tx => {
+        for (const [key] of diff.removed) {
+          tx.delete(key)
+        }
+        for (const [key, value] of diff.added) {
+          tx.set(key, value)
+        }
+        for (const [key, , value] of diff.changed) {
+          tx.set(key, value)
+        }
+      })
+      return this
+    },
+
+    transaction<R>(callback: (tx: TurboMapTransaction<K, V>) => R): R {
+      if (inTransaction) {
+        throw new Error('Nested transactions are not supported')
+      }
+      if (typeof callback !== 'function') {
+        throw new Error('transaction requires a callback function')
+      }
+
+      inTransaction = true
+      const effects: Array<() => void> = []
+      let result: R
+      try {
+        // Stage: nothing touches storage until the callback returns
+        const { tx, operations } = createTransaction()
+        staging = true
+        try {
+          result = callback(tx)
+        } finally {
+          staging = false
+        }
+        if (result && typeof (result as { then?: unknown }).then === 'function') {
+          throw new Error('transaction callback must be synchronous')
+        }
+
+        // Commit: apply staged operations, rolling back if any of them fails
+        const undo = new Map<string, UndoRecord<K, V> | null>()
+        pendingEffects = effects
+        journal = undo
+        try {
+          logWrite(() => ({ op: 'begin' }))
+          for (const operation of operations) {
+            if (operation.type === 'set') {
+              applySet(operation.key, operation.value, operation.options)
+            } else if (operation.type === 'delete') {
+              applyDelete(operation.key)
+            } else {
+              applyClear()
+            }
           }
-          
-          for (const [key, value] of entries) {
-            this.set(key, value)
+          journal = null
+          logWrite(() => ({ op: 'commit' }))
+        } catch (error) {
+          journal = null
+          rollback(undo)
+          if (wal) {
+            try {
+              wal.append({ op: 'abort' })
+            } catch {
+              // Recovery drops transactions without a commit record anyway
+            }
           }
-          return enhancedMap
-        },
-        () => {
-          errorCount++
-          console.warn('EnhancedTurboMap: setAll operation failed')
-          return enhancedMap
-        },
-        'setAll',
-        ErrorType.UNKNOWN
-      )
+          throw error
+        }
+      } catch (error) {
+        errorCount++
+        throw error
+      } finally {
+        pendingEffects = null
+        journal = null
+        inTransaction = false
+      }
+
+      // Committed: release the deferred after hooks and change events
+      for (const effect of effects) {
+        effect()
+      }
+      return result
+    },
+
+    setAll(entries: [K, V][]): EnhancedTurboMapLike<K, V> {
+      if (!Array.isArray(entries)) {
+        throw new Error('setAll requires an array of entries')
+      }
+
+      // All-or-nothing: a bad entry leaves the map untouched and its error reaches the caller
+      enhancedMap.transaction(tx => {
+        for (const [key, value] of entries) {
+          tx.set(key, value)
+        }
+      })
+      return enhancedMap
     },
 
     getAll(keys: K[]): (V | undefined)[] {
@@ -690,10 +1691,85 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
       )
     },
 
+    createIndex(name: string, extractor: IndexExtractor<K, V>) {
+      if (typeof extractor !== 'function') {
+        throw new Error('createIndex requires an extractor function')
+      }
+      if (indexes.has(name)) {
+        throw new Error(`Index "${name}" already exists`)
+      }
+
+      const index = new SecondaryIndex<K, V>(name, extractor, serializeValue)
+      purgeExpired()
+      for (const [serializedKey, value] of internalMap) {
+        index.add(serializedKey, keyMap.get(serializedKey) as K, value)
+      }
+      indexes.set(name, index)
+      return this
+    },
+
+    lookup(name: string, indexValue: unknown): [K, V][] {
+      const index = indexes.get(name)
+      if (!index) {
+        throw new Error(`Index "${name}" does not exist`)
+      }
+
+      const result: [K, V][] = []
+      // Copy first: expiring an entry removes it from the bucket being read
+      for (const serializedKey of Array.from(index.get(indexValue))) {
+        if (!isExpired(serializedKey)) {
+          result.push([keyMap.get(serializedKey) as K, internalMap.get(serializedKey) as V])
+        }
+      }
+      return result
+    },
+
+    dropIndex(name: string): boolean {
+      return indexes.delete(name)
+    },
+
+    match(partial: Record<string, unknown>): [K, V][] {
+      const wanted = globalSerializer.serializeFields(partial)
+      if (!wanted) {
+        throw new Error('match requires a plain object of key fields')
+      }
+
+      // Start from the smallest key-field index bucket, or scan every key without one
+      let candidates: ReadonlySet<string> | null = null
+      for (const [field, index] of keyFieldIndexes) {
+        if (!wanted.has(field)) continue
+        const bucket = index.get({ [field]: partial[field] })
+        if (!candidates || bucket.size < candidates.size) {
+          candidates = bucket
+        }
+      }
+
+      const result: [K, V][] = []
+      for (const serializedKey of Array.from(candidates ?? internalMap.keys())) {
+        if (isExpired(serializedKey)) continue
+
+        const key = keyMap.get(serializedKey) as K
+        const fields = globalSerializer.serializeFields(key)
+        if (!fields) continue
+
+        let matches = true
+        for (const [field, serializedValue] of wanted) {
+          if (fields.get(field) !== serializedValue) {
+            matches = false
+            break
+          }
+        }
+        if (matches) {
+          result.push([key, internalMap.get(serializedKey) as V])
+        }
+      }
+      return result
+    },
+
     mapValues<U>(transform: (value: V, key: K) => U): EnhancedTurboMapLike<K, U> {
       return globalErrorRecovery.executeWithRecovery(
         () => {
-          const result = createEnhancedTurboMap<K, U>([], config)
+          const result = createEnhancedTurboMap<K, U>([], derivedConfig)
           for (const [key, value] of this.entries()) {
             result.set(key, transform(value, key))
           }
@@ -702,7 +1778,7 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
         () => {
           errorCount++
           console.warn('EnhancedTurboMap: mapValues operation failed')
-          return createEnhancedTurboMap<K, U>([], config)
+          return createEnhancedTurboMap<K, U>([], derivedConfig)
         },
         'mapValues',
         ErrorType.UNKNOWN
@@ -712,7 +1788,11 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
         // Iterators
     *entries(): IterableIterator<[K, V]> {
       try {
+        const now = Date.now()
         for (const [serializedKey, value] of internalMap.entries()) {
+          if (isExpired(serializedKey, now)) {
+            continue
+          }
           const originalKey = keyMap.get(serializedKey)
           if (originalKey !== undefined) {
             yield [originalKey, value]
@@ -761,6 +1841,8 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
         cacheHitRate: operationCount > 0 ? cacheHits / operationCount : 0,
         errorCount,
         errorRate: operationCount > 0 ? errorCount / operationCount : 0,
+        expirations,
+        evictions,
         pluginStats: pluginManager?.getStatus(),
         cacheStats: cache?.getStats(),
         serializerStats: config.enableAdaptiveSerialization ? globalSerializer.getStats() : null
@@ -772,6 +1854,8 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
         size: this.size,
         internalMapSize: internalMap.size,
         keyMapSize: keyMap.size,
+        indexes: [...indexes.values(), ...keyFieldIndexes.values()].map(index => index.getStats()),
+        driftedKeys: config.keyMutation === 'detect' ? findDriftedKeys() : [],
         config,
         health: this.getHealthStatus(),
         diagnostics: this.getDiagnostics()
@@ -801,12 +1885,14 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
       const errorRate = operationCount > 0 ? errorCount / operationCount : 0
       const cacheHitRate = operationCount > 0 ? cacheHits / operationCount : 0
       
+      const writeAheadLog = wal?.getStatus() ?? null
       return {
-        healthy: errorRate < 0.05 && !globalErrorRecovery.isInFallbackMode(),
+        healthy: errorRate < 0.05 && !globalErrorRecovery.isInFallbackMode() && !writeAheadLog?.failed,
         errorRate,
         cacheHitRate,
         inFallbackMode: globalErrorRecovery.isInFallbackMode(),
-        score: this.getDiagnostics()?.healthScore || 0
+        score: this.getDiagnostics()?.healthScore || 0,
+        writeAheadLog
       }
     },
 
@@ -878,6 +1964,7 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
     },
 
     reset(): void {
+      assertNotStaging('reset')
       globalErrorRecovery.executeWithRecovery(
         () => {
           this.clear()
@@ -885,6 +1972,8 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
           cacheHits = 0
           cacheMisses = 0
           errorCount = 0
+          expirations = 0
+          evictions = 0
           
           // Reset components
           cache?.clear()
@@ -905,19 +1994,40 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
     // Serialization
     serialize(): string {
       return globalErrorRecovery.executeWithRecovery(
-        () => {
-          const entries = Array.from(this.entries())
-          return JSON.stringify(entries)
-        },
+        () => JSON.stringify(globalTypedCodec.encodeEntries(enhancedMap.entries())),
         () => {
           console.warn('EnhancedTurboMap: Serialization failed')
-          return '[]'
+          return JSON.stringify(globalTypedCodec.encodeEntries([]))
         },
         'serialize',
         ErrorType.SERIALIZATION
       )
     },
 
+    toBinary(): Uint8Array {
+      return globalErrorRecovery.executeWithRecovery(
+        () => globalBinaryCodec.encodeEntries(enhancedMap.entries()),
+        () => {
+          console.warn('EnhancedTurboMap: Binary serialization failed')
+          return globalBinaryCodec.encodeEntries([])
+        },
+        'toBinary',
+        ErrorType.SERIALIZATION
+      )
+    },
+
+    fromBinary(bytes: Uint8Array) {
+      // Decode first so a corrupt snapshot leaves the current contents untouched
+      const decoded = globalBinaryCodec.decodeEntries(bytes) as [K, V][]
+      enhancedMap.transaction(tx => {
+        tx.clear()
+        for (const [key, value] of decoded) {
+          tx.set(key, value)
+        }
+      })
+      return this
+    },
+
     clone(): EnhancedTurboMapLike<K, V> {
       return globalErrorRecovery.executeWithRecovery(
         () => {
@@ -925,12 +2035,12 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
           for (const [key, value] of enhancedMap.entries()) {
             entriesArray.push([key, value])
           }
-          const cloned = createEnhancedTurboMap<K, V>(entriesArray, config)
+          const cloned = createEnhancedTurboMap<K, V>(entriesArray, derivedConfig)
           return cloned
         },
         () => {
           console.warn('EnhancedTurboMap: Clone failed, returning empty map')
-          return createEnhancedTurboMap<K, V>([], config)
+          return createEnhancedTurboMap<K, V>([], derivedConfig)
         },
         'clone',
         ErrorType.UNKNOWN
@@ -972,10 +2082,28 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
           }
           
           for (const key of toDelete) {
-            internalMap.delete(key)
+            removeEntry(key)
+          }
+
+          // Entries whose keys were mutated move to their current serialized key
+          let rekeyed = 0
+          if (config.keyMutation === 'detect') {
+            for (const drift of findDriftedKeys()) {
+              if (rekeyEntry(drift)) {
+                rekeyed++
+              } else {
+                console.warn(`EnhancedTurboMap: Mutated key ${drift.currentSerializedKey} collides with an existing entry, left under ${drift.serializedKey}`)
+              }
+            }
+          }
+          
+          // The log is rewritten as the live entries, which also drops records of re-keyed entries
+          if (wal) {
+            purgeExpired()
+            wal.checkpoint(liveRecords())
           }
           
-          console.log(`EnhancedTurboMap: Compacted, removed ${toDelete.length} orphaned entries`)
+          console.log(`EnhancedTurboMap: Compacted, removed ${toDelete.length} orphaned entries, re-keyed ${rekeyed} mutated keys`)
         },
         () => {
           console.warn('EnhancedTurboMap: Compact failed')
@@ -983,7 +2111,34 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
         'compact',
         ErrorType.UNKNOWN
       )
+    },
+
+    close(): void {
+      closed = true
+      if (sweepTimer) {
+        clearInterval(sweepTimer)
+        sweepTimer = null
+      }
+      if (cleanupTimer) {
+        clearInterval(cleanupTimer)
+        cleanupTimer = null
+      }
+      wal?.close()
+    }
+  }
+
+  // Rebuild the map from the recovered log before anything new is logged
+  if (wal) {
+    const now = Date.now()
+    replaying = true
+    try {
+      for (const record of wal.takeRecoveredRecords()) {
+        applyRecord(enhancedMap, record, now)
+      }
+    } finally {
+      replaying = false
     }
+    enforceCapacity()
   }
 
   // Initialize with entries if provided
@@ -1000,7 +2155,7 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
 
   // Setup auto-cleanup if enabled
   if (config.enableAutoCleanup) {
-    setInterval(() => {
+    cleanupTimer = setInterval(() => {
       enhancedMap.cleanup()
     }, config.cleanupInterval)
   }
@@ -1011,9 +2166,15 @@ function createEnhancedTurboMapInternal<K extends MapKey, V>(
 /**
  * Create fallback enhanced TurboMap for critical errors
  */
-function createFallbackEnhancedTurboMap<K extends MapKey, V>(): EnhancedTurboMapLike<K, V> {
-  const fallbackMap = new Map<K, V>()
-  
+function createFallbackEnhancedTurboMap<K extends MapKey, V>(
+  entries: Iterable<readonly [K, V]> = []
+): EnhancedTurboMapLike<K, V> {
+  const fallbackMap = new Map<K, V>(entries)
+  // Features that need serialized keys fail loudly rather than return empty results
+  const unsupported = (method: string) => (): never => {
+    throw new Error(`EnhancedTurboMap: ${method}() is not supported in fallback mode`)
+  }
+
   return {
     [Symbol.toStringTag]: 'EnhancedTurboMap',
     
@@ -1034,12 +2195,27 @@ function createFallbackEnhancedTurboMap<K extends MapKey, V>(): EnhancedTurboMap
     
     // Enhanced methods (minimal implementation)
     getSerializedKey: (key: K) => JSON.stringify(key),
+    getExpiry: () => undefined,
+    subscribe: unsupported('subscribe'),
+    on: unsupported('on'),
+    getSnapshot: () => Array.from(fallbackMap.entries()),
+    diff: unsupported('diff'),
+    applyPatch: unsupported('applyPatch'),
+    transaction: function<R>(callback: (tx: TurboMapTransaction<K, V>) => R) { return callback(this as unknown as TurboMapTransaction<K, V>) },
     setAll: function(entries: [K, V][]) { entries.forEach(([k, v]) => fallbackMap.set(k, v)); return this },
     getAll: (keys: K[]) => keys.map(k => fallbackMap.get(k)),
     deleteAll: (keys: K[]) => keys.map(k => fallbackMap.delete(k)),
-    findByValue: () => undefined,
-    filter: () => [],
-    mapValues: () => createFallbackEnhancedTurboMap<K, unknown>(),
+    findByValue: (predicate: (value: V, key: K) => boolean) =>
+      Array.from(fallbackMap.entries()).find(([key, value]) => predicate(value, key)),
+    filter: (predicate: (value: V, key: K) => boolean) =>
+      Array.from(fallbackMap.entries()).filter(([key, value]) => predicate(value, key)),
+    createIndex: unsupported('createIndex'),
+    lookup: unsupported('lookup'),
+    dropIndex: () => false,
+    match: unsupported('match'),
+    mapValues: <U>(transform: (value: V, key: K) => U) => createFallbackEnhancedTurboMap<K, U>(
+      Array.from(fallbackMap.entries(), ([key, value]) => [key, transform(value, key)] as const)
+    ),
     getMetrics: () => ({
       size: fallbackMap.size,
       operationCount: 0,
@@ -1048,12 +2224,16 @@ function createFallbackEnhancedTurboMap<K extends MapKey, V>(): EnhancedTurboMap
       cacheHitRate: 0,
       errorCount: 1,
       errorRate: 1,
+      expirations: 0,
+      evictions: 0,
       fallbackMode: true
     }),
     debug: () => ({
       size: fallbackMap.size,
       internalMapSize: fallbackMap.size,
       keyMapSize: fallbackMap.size,
+      indexes: [],
+      driftedKeys: [],
       config: { fallbackMode: true },
       health: { healthy: false, fallbackMode: true },
       diagnostics: null,
@@ -1066,7 +2246,8 @@ function createFallbackEnhancedTurboMap<K extends MapKey, V>(): EnhancedTurboMap
       cacheHitRate: 0,
       inFallbackMode: true,
       score: 0,
-      fallbackMode: true
+      fallbackMode: true,
+      writeAheadLog: null
     }),
     addPlugin: async () => false,
     removePlugin: async () => false,
@@ -1076,10 +2257,18 @@ function createFallbackEnhancedTurboMap<K extends MapKey, V>(): EnhancedTurboMap
     toAsync: () => { throw new Error('Async not available in fallback mode') },
     optimize: () => {},
     reset: () => fallbackMap.clear(),
-    serialize: () => '[]',
-    clone: () => createFallbackEnhancedTurboMap<K, V>(),
+    serialize: () => JSON.stringify(globalTypedCodec.encodeEntries(fallbackMap.entries())),
+    toBinary: () => globalBinaryCodec.encodeEntries(fallbackMap.entries()),
+    fromBinary: function(bytes: Uint8Array) {
+      const decoded = globalBinaryCodec.decodeEntries(bytes) as [K, V][]
+      fallbackMap.clear()
+      decoded.forEach(([k, v]) => fallbackMap.set(k, v))
+      return this
+    },
+    clone: () => createFallbackEnhancedTurboMap<K, V>(fallbackMap.entries()),
     cleanup: () => {},
-    compact: () => {}
+    compact: () => {},
+    close: () => {}
   } as EnhancedTurboMapLike<K, V>
 }
 
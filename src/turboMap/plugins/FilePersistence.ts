@@ -0,0 +1,177 @@
+/**
+ * Append-only file persistence
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import type { EnhancedTurboMapLike } from '../index'
+import type { TurboMapPlugin } from './PluginManager'
+import { globalErrorRecovery, ErrorType } from '../utils/ErrorRecovery'
+import { setRecord, deleteRecord, clearRecord, parseRecord, applyRecord, type PersistenceRecord } from './PersistenceRecord'
+
+type NodeFs = typeof import('node:fs')
+
+export interface FilePersistenceOptions {
+  path: string
+  // Milliseconds between background compactions; 0 disables them
+  compactInterval?: number
+}
+
+/**
+ * Plugin that logs every set, delete and clear to an append-only file of JSON lines
+ *
+ * attach() replays the log into the map before recording new writes, and compaction
+ * rewrites the log as one set record per live entry. Set records keep the entry's expiry
+ * time, so entries that expired while the map was not running stay gone. Requires Node.js.
+ */
+export class FilePersistence<K extends MapKey, V> implements TurboMapPlugin<K, V> {
+  readonly name = 'file-persistence'
+  readonly path: string
+  private compactInterval: number
+  private fs: NodeFs | null = null
+  private map: EnhancedTurboMapLike<K, V> | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  // Records appended since the last compaction
+  private pending = 0
+
+  constructor(options: FilePersistenceOptions) {
+    this.path = options.path
+    this.compactInterval = options.compactInterval ?? 60000
+  }
+
+  /**
+   * Replay the log into a map, then install the plugin and start background compaction.
+   * Resolves to the number of records replayed.
+   */
+  async attach(map: EnhancedTurboMapLike<K, V>): Promise<number> {
+    if (this.map) {
+      throw new Error('FilePersistence: Already attached to a map')
+    }
+    this.fs = await import('node:fs')
+    const replayed = this.replay(map)
+
+    if (!await map.addPlugin(this)) {
+      throw new Error('FilePersistence: Could not install plugin on map')
+    }
+    this.map = map
+    this.startCompaction()
+    return replayed
+  }
+
+  /**
+   * Stop logging and background compaction
+   */
+  async detach(): Promise<void> {
+    const map = this.map
+    this.stopCompaction()
+    this.map = null
+    if (map) {
+      await map.removePlugin(this.name)
+    }
+  }
+
+  afterSet(key: K, value: V, expiresAt?: number): void {
+    this.append(setRecord(key, value, expiresAt))
+  }
+
+  afterDelete(key: K, deleted: boolean): void {
+    if (deleted) {
+      this.append(deleteRecord(key))
+    }
+  }
+
+  afterClear(): void {
+    this.append(clearRecord())
+  }
+
+  onEvict(key: K): void {
+    this.append(deleteRecord(key))
+  }
+
+  onExpire(key: K): void {
+    this.append(deleteRecord(key))
+  }
+
+  onUninstall(): void {
+    this.stopCompaction()
+    this.map = null
+  }
+
+  /**
+   * Rewrite the log as a snapshot of the map's current entries
+   */
+  compact(): boolean {
+    const fs = this.fs
+    const map = this.map
+    if (!fs || !map) return false
+
+    return globalErrorRecovery.executeWithRecovery(
+      () => {
+        const lines: string[] = []
+        for (const [key, value] of map.entries()) {
+          lines.push(JSON.stringify(setRecord(key, value, map.getExpiry(key))) + '\n')
+        }
+        const tempPath = `${this.path}.tmp`
+        fs.writeFileSync(tempPath, lines.join(''))
+        fs.renameSync(tempPath, this.path)
+        this.pending = 0
+        return true
+      },
+      () => {
+        console.warn(`FilePersistence: Compaction of ${this.path} failed, keeping the log`)
+        return false
+      },
+      'filePersistenceCompact',
+      ErrorType.PLUGIN
+    )
+  }
+
+  private replay(map: EnhancedTurboMapLike<K, V>): number {
+    const fs = this.fs as NodeFs
+    if (!fs.existsSync(this.path)) return 0
+
+    const lines = fs.readFileSync(this.path, 'utf8').split('\n')
+    let replayed = 0
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i] as string
+      if (!line) continue
+      let record: PersistenceRecord
+      try {
+        record = parseRecord(line)
+      } catch (error) {
+        // A crash mid-append leaves a torn last line
+        console.warn(`FilePersistence: Skipping unreadable record at ${this.path}:${i + 1}:`, error)
+        continue
+      }
+      applyRecord(map, record)
+      replayed++
+    }
+    this.pending = replayed
+    return replayed
+  }
+
+  private append(record: PersistenceRecord): void {
+    // Nothing is logged while the log is being replayed
+    if (!this.fs || !this.map) return
+    this.fs.appendFileSync(this.path, JSON.stringify(record) + '\n')
+    this.pending++
+  }
+
+  private startCompaction(): void {
+    if (this.timer || this.compactInterval <= 0) return
+    this.timer = setInterval(() => {
+      if (this.pending > 0) {
+        this.compact()
+      }
+    }, this.compactInterval)
+    // Never keep the process alive just to compact
+    const timer = this.timer as { unref?: () => void }
+    timer.unref?.()
+  }
+
+  private stopCompaction(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Mutation records shared by the persistence plugins
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import { globalTypedCodec, type TypedValue } from '../core/TypedCodec'
+
+/**
+ * One logged mutation; keys and values use the typed encoding, and e is the expiry time
+ */
+export type PersistenceRecord =
+  | { op: 'set'; k: TypedValue; v: TypedValue; e?: number }
+  | { op: 'delete'; k: TypedValue }
+  | { op: 'clear' }
+
+/**
+ * Map operations a record can be replayed through
+ */
+export interface PersistenceTarget<K extends MapKey, V> {
+  set(key: K, value: V, options?: { ttl?: number }): unknown
+  delete(key: K): boolean
+  clear(): void
+}
+
+export function setRecord(key: unknown, value: unknown, expiresAt?: number): PersistenceRecord {
+  const record: PersistenceRecord = { op: 'set', k: globalTypedCodec.encode(key), v: globalTypedCodec.encode(value) }
+  if (expiresAt !== undefined) {
+    record.e = expiresAt
+  }
+  return record
+}
+
+export function deleteRecord(key: unknown): PersistenceRecord {
+  return { op: 'delete', k: globalTypedCodec.encode(key) }
+}
+
+export function clearRecord(): PersistenceRecord {
+  return { op: 'clear' }
+}
+
+/**
+ * Parse one serialized record, throwing when it is not a well-formed record
+ */
+export function parseRecord(text: string): PersistenceRecord {
+  const record = JSON.parse(text) as Partial<Record<'op' | 'k' | 'v' | 'e', unknown>> | null
+  if (record !== null && typeof record === 'object') {
+    if (record.op === 'clear') return { op: 'clear' }
+    if (record.op === 'delete' && 'k' in record) return record as PersistenceRecord
+    if (record.op === 'set' && 'k' in record && 'v' in record && (record.e === undefined || typeof record.e === 'number')) {
+      return record as PersistenceRecord
+    }
+  }
+  throw new Error(`Malformed persistence record: ${text.slice(0, 80)}`)
+}
+
+/**
+ * Apply a record to a map; a set whose expiry has passed removes the entry instead
+ */
+export function applyRecord<K extends MapKey, V>(target: PersistenceTarget<K, V>, record: PersistenceRecord, now: number = Date.now()): void {
+  switch (record.op) {
+    case 'set': {
+      const key = globalTypedCodec.decode(record.k) as K
+      if (record.e === undefined) {
+        target.set(key, globalTypedCodec.decode(record.v) as V)
+      } else if (record.e > now) {
+        target.set(key, globalTypedCodec.decode(record.v) as V, { ttl: record.e - now })
+      } else {
+        target.delete(key)
+      }
+      break
+    }
+    case 'delete':
+      target.delete(globalTypedCodec.decode(record.k) as K)
+      break
+    case 'clear':
+      target.clear()
+      break
+  }
+}
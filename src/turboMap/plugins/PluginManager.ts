@@ -17,7 +17,7 @@ export interface TurboMapPlugin<K extends MapKey, V> {
   
   // Lifecycle hooks
   beforeSet?(key: K, value: V): { key: K; value: V } | null
-  afterSet?(key: K, value: V): void
+  afterSet?(key: K, value: V, expiresAt?: number): void // expiresAt is absent for entries without a TTL
   beforeGet?(key: K): K | null
   afterGet?(key: K, value: V | undefined): V | undefined
   beforeDelete?(key: K): K | null
@@ -26,6 +26,8 @@ export interface TurboMapPlugin<K extends MapKey, V> {
   afterClear?(): void
   
   // Advanced hooks
+  onEvict?(key: K, value: V): void
+  onExpire?(key: K, value: V): void
   onError?(error: Error, operation: string, key?: K): void
   onMetricsUpdate?(metrics: {
     size: number
@@ -324,7 +326,8 @@ export class PluginManager<K extends MapKey, V> {
   }
 
   /**
-   * Execute after hooks
+   * Execute after hooks, returning the last non-null hook result, or undefined when no hook
+   * returned one; callers keep their own value in that case, as get() does with afterGet
    */
   executeAfter<T>(
     hookName: keyof TurboMapPlugin<K, V>,
@@ -332,11 +335,11 @@ export class PluginManager<K extends MapKey, V> {
     ...args: unknown[]
   ): T | undefined {
     if (!this.globalEnabled) {
-      return args[0] as T
+      return undefined
     }
 
     const plugins = this.getActivePlugins()
-    let result = args[0] as T
+    let result: T | undefined
 
     for (const plugin of plugins) {
       try {
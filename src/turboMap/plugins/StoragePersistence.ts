@@ -0,0 +1,186 @@
+/**
+ * Persistence to Web Storage style key/value stores
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import type { EnhancedTurboMapLike } from '../index'
+import type { TurboMapPlugin } from './PluginManager'
+import { globalErrorRecovery, ErrorType } from '../utils/ErrorRecovery'
+import { globalTypedCodec } from '../core/TypedCodec'
+import { setRecord, parseRecord, applyRecord } from './PersistenceRecord'
+
+/**
+ * The parts of the Web Storage interface the adapter uses
+ */
+export interface StorageLike {
+  readonly length: number
+  key(index: number): string | null
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+export interface StoragePersistenceOptions {
+  storage: StorageLike
+  // Prefix separating this map's items from others in the same storage
+  namespace?: string
+}
+
+/**
+ * Whether an error is a storage quota error; browsers disagree on name and code
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false
+  const { name, code } = error as { name?: unknown; code?: unknown }
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014
+}
+
+/**
+ * Plugin mirroring a map into a Storage object, one item per entry
+ *
+ * Items are named by the escaped namespace, a colon and the map's serialized key, so keys
+ * the map treats as equal share one item, and hold a set record with the typed key, value
+ * and expiry time. attach() loads the stored entries into the map, dropping expired ones.
+ * Writes that exceed the storage quota are reported to the error recovery manager as
+ * ErrorType.QUOTA and leave the entry unpersisted.
+ */
+export class StoragePersistence<K extends MapKey, V> implements TurboMapPlugin<K, V> {
+  readonly name: string
+  readonly namespace: string
+  private storage: StorageLike
+  private prefix: string
+  private map: EnhancedTurboMapLike<K, V> | null = null
+
+  constructor(options: StoragePersistenceOptions) {
+    this.storage = options.storage
+    this.namespace = options.namespace ?? 'turbomap'
+    // Escaped so no namespace's prefix can start with another's, e.g. 'app' and 'app:users'
+    this.prefix = `${this.namespace.replace(/[\\:]/g, '\\$&')}:`
+    this.name = `storage-persistence:${this.namespace}`
+  }
+
+  /**
+   * Load the stored entries into a map, then install the plugin.
+   * Resolves to the number of entries loaded.
+   */
+  async attach(map: EnhancedTurboMapLike<K, V>): Promise<number> {
+    if (this.map) {
+      throw new Error('StoragePersistence: Already attached to a map')
+    }
+    const loaded = this.rehydrate(map)
+
+    if (!await map.addPlugin(this)) {
+      throw new Error('StoragePersistence: Could not install plugin on map')
+    }
+    this.map = map
+    return loaded
+  }
+
+  /**
+   * Stop mirroring; stored items are kept
+   */
+  async detach(): Promise<void> {
+    const map = this.map
+    this.map = null
+    if (map) {
+      await map.removePlugin(this.name)
+    }
+  }
+
+  afterSet(key: K, value: V, expiresAt?: number): void {
+    if (!this.map) return
+    const itemKey = this.itemKey(this.map, key)
+    try {
+      this.storage.setItem(itemKey, JSON.stringify(setRecord(key, value, expiresAt)))
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error
+      globalErrorRecovery.handleError(error as Error, 'storagePersistenceWrite', ErrorType.QUOTA)
+      console.warn(`StoragePersistence: Storage quota exceeded, ${itemKey} is not persisted`)
+      // Drop the previous copy so a reload does not bring back an outdated value
+      this.storage.removeItem(itemKey)
+    }
+  }
+
+  afterDelete(key: K, deleted: boolean): void {
+    if (this.map && deleted) {
+      this.storage.removeItem(this.itemKey(this.map, key))
+    }
+  }
+
+  afterClear(): void {
+    if (this.map) {
+      this.removeAll()
+    }
+  }
+
+  onEvict(key: K): void {
+    if (this.map) {
+      this.storage.removeItem(this.itemKey(this.map, key))
+    }
+  }
+
+  onExpire(key: K): void {
+    this.onEvict(key)
+  }
+
+  onUninstall(): void {
+    this.map = null
+  }
+
+  /**
+   * Remove every item in this namespace
+   */
+  removeAll(): void {
+    for (const itemKey of this.itemKeys()) {
+      this.storage.removeItem(itemKey)
+    }
+  }
+
+  private itemKey(map: EnhancedTurboMapLike<K, V>, key: K): string {
+    return this.prefix + map.getSerializedKey(key)
+  }
+
+  private itemKeys(): string[] {
+    // Collected up front because removing items shifts the storage indexes
+    const keys: string[] = []
+    for (let i = 0; i < this.storage.length; i++) {
+      const itemKey = this.storage.key(i)
+      if (itemKey !== null && itemKey.startsWith(this.prefix)) {
+        keys.push(itemKey)
+      }
+    }
+    return keys
+  }
+
+  private rehydrate(map: EnhancedTurboMapLike<K, V>): number {
+    let loaded = 0
+    for (const itemKey of this.itemKeys()) {
+      const text = this.storage.getItem(itemKey)
+      if (text === null) continue
+      try {
+        const record = parseRecord(text)
+        if (record.op !== 'set') {
+          throw new Error(`Expected a set record, found ${record.op}`)
+        }
+        if (record.e !== undefined && record.e <= Date.now()) {
+          this.storage.removeItem(itemKey)
+          continue
+        }
+        applyRecord(map, record)
+
+        // Key serialization can differ from the writing process, e.g. for class-tagged or
+        // symbol keys, so the item moves to the name later deletes will look for
+        const currentItemKey = this.itemKey(map, globalTypedCodec.decode(record.k) as K)
+        if (currentItemKey !== itemKey) {
+          this.storage.removeItem(itemKey)
+          this.storage.setItem(currentItemKey, text)
+        }
+      } catch (error) {
+        console.warn(`StoragePersistence: Skipping unreadable item ${itemKey}:`, error)
+        continue
+      }
+      loaded++
+    }
+    return loaded
+  }
+}
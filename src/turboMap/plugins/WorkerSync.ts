@@ -0,0 +1,281 @@
+/**
+ * Cross-worker synchronization over message channels
+ */
+
+import type { MapKey } from '../utils/TypeUtils'
+import type { EnhancedTurboMapLike } from '../index'
+import type { TurboMapPlugin } from './PluginManager'
+import { globalErrorRecovery, ErrorType } from '../utils/ErrorRecovery'
+import { globalTypedCodec, type TypedValue } from '../core/TypedCodec'
+
+type MessageListener = (event: { data: unknown }) => void
+
+/**
+ * The parts of BroadcastChannel and MessagePort the sync layer uses
+ */
+export interface SyncChannel {
+  postMessage(message: unknown): void
+  addEventListener(type: 'message', listener: MessageListener): void
+  removeEventListener(type: 'message', listener: MessageListener): void
+  // MessagePort only delivers once started
+  start?(): void
+}
+
+/**
+ * Writes per replica that an entry version has seen
+ */
+export type VectorClock = Record<string, number>
+
+/**
+ * Version of one entry as broadcast to peers; v is absent for deletes
+ */
+export interface SyncUpdate {
+  k: TypedValue
+  v?: TypedValue
+  clock: VectorClock
+  time: number
+  replica: string
+}
+
+export type SyncMessage =
+  | { protocol: 'turbomap-sync'; replica: string; type: 'hello' }
+  | { protocol: 'turbomap-sync'; replica: string; type: 'update'; updates: SyncUpdate[] }
+
+export interface WorkerSyncOptions {
+  channel: SyncChannel
+  // Unique per replica; also breaks ties between concurrent writes
+  replicaId?: string
+}
+
+interface EntryVersion<K> {
+  key: K
+  value: TypedValue | undefined
+  clock: VectorClock
+  time: number
+  replica: string
+}
+
+/**
+ * Order of two vector clocks
+ */
+export function compareClocks(a: VectorClock, b: VectorClock): 'before' | 'after' | 'equal' | 'concurrent' {
+  let less = false
+  let greater = false
+  for (const replica of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[replica] ?? 0
+    const right = b[replica] ?? 0
+    if (left < right) less = true
+    if (left > right) greater = true
+  }
+  if (less && greater) return 'concurrent'
+  if (less) return 'before'
+  if (greater) return 'after'
+  return 'equal'
+}
+
+function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged: VectorClock = { ...a }
+  for (const [replica, count] of Object.entries(b)) {
+    merged[replica] = Math.max(merged[replica] ?? 0, count)
+  }
+  return merged
+}
+
+let replicaCount = 0
+
+/**
+ * Plugin keeping maps in several workers consistent
+ *
+ * Local sets, deletes and clears are broadcast with the typed encoding of their keys and
+ * values. Every entry carries a vector clock: a remote write that follows the local one
+ * replaces it, and concurrent writes go to the later wall-clock time, then the higher
+ * replica id, so all replicas settle on the same value. A replica joining late asks its
+ * peers for their entries. Evictions and expirations stay local; the evicted version is
+ * forgotten, so it is not offered to replicas that join later.
+ */
+export class WorkerSync<K extends MapKey, V> implements TurboMapPlugin<K, V> {
+  readonly name = 'worker-sync'
+  readonly replicaId: string
+  private channel: SyncChannel
+  private map: EnhancedTurboMapLike<K, V> | null = null
+  // Versions by serialized key, kept after deletes so late concurrent writes lose to them
+  private versions = new Map<string, EntryVersion<K>>()
+  private applying = false
+  private listener: MessageListener = event => this.receive(event.data)
+
+  constructor(options: WorkerSyncOptions) {
+    this.channel = options.channel
+    this.replicaId = options.replicaId ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${replicaCount++}`
+  }
+
+  /**
+   * Start syncing a map and ask peers for their entries
+   */
+  async attach(map: EnhancedTurboMapLike<K, V>): Promise<void> {
+    if (this.map) {
+      throw new Error('WorkerSync: Already attached to a map')
+    }
+    if (!await map.addPlugin(this)) {
+      throw new Error('WorkerSync: Could not install plugin on map')
+    }
+    this.map = map
+    // Entries present before syncing started are offered to peers as local writes
+    const updates = Array.from(map.entries(), ([key, value]) => this.record(key, globalTypedCodec.encode(value)))
+    this.channel.addEventListener('message', this.listener)
+    this.channel.start?.()
+    this.post({ protocol: 'turbomap-sync', replica: this.replicaId, type: 'hello' })
+    this.broadcast(updates)
+  }
+
+  /**
+   * Stop syncing; the channel stays open
+   */
+  async detach(): Promise<void> {
+    const map = this.map
+    this.stop()
+    if (map) {
+      await map.removePlugin(this.name)
+    }
+  }
+
+  afterSet(key: K, value: V): void {
+    if (!this.map || this.applying) return
+    this.broadcast([this.record(key, globalTypedCodec.encode(value))])
+  }
+
+  afterDelete(key: K, deleted: boolean): void {
+    if (!this.map || this.applying || !deleted) return
+    this.broadcast([this.record(key, undefined)])
+  }
+
+  onEvict(key: K): void {
+    if (this.map) {
+      this.versions.delete(this.map.getSerializedKey(key))
+    }
+  }
+
+  onExpire(key: K): void {
+    this.onEvict(key)
+  }
+
+  afterClear(): void {
+    if (!this.map || this.applying) return
+    const updates: SyncUpdate[] = []
+    for (const version of Array.from(this.versions.values())) {
+      if (version.value !== undefined) {
+        updates.push(this.record(version.key, undefined))
+      }
+    }
+    this.broadcast(updates)
+  }
+
+  onUninstall(): void {
+    this.stop()
+  }
+
+  private stop(): void {
+    if (this.map) {
+      this.channel.removeEventListener('message', this.listener)
+    }
+    this.map = null
+  }
+
+  // New local version of an entry, following every version seen so far
+  private record(key: K, value: TypedValue | undefined): SyncUpdate {
+    const serializedKey = (this.map as EnhancedTurboMapLike<K, V>).getSerializedKey(key)
+    const previous = this.versions.get(serializedKey)
+    const clock = { ...previous?.clock }
+    clock[this.replicaId] = (clock[this.replicaId] ?? 0) + 1
+    const version: EntryVersion<K> = { key, value, clock, time: Date.now(), replica: this.replicaId }
+    this.versions.set(serializedKey, version)
+    return this.toUpdate(version)
+  }
+
+  private toUpdate(version: EntryVersion<K>): SyncUpdate {
+    const update: SyncUpdate = {
+      k: globalTypedCodec.encode(version.key),
+      clock: version.clock,
+      time: version.time,
+      replica: version.replica
+    }
+    if (version.value !== undefined) {
+      update.v = version.value
+    }
+    return update
+  }
+
+  private broadcast(updates: SyncUpdate[]): void {
+    if (updates.length > 0) {
+      this.post({ protocol: 'turbomap-sync', replica: this.replicaId, type: 'update', updates })
+    }
+  }
+
+  private post(message: SyncMessage): void {
+    this.channel.postMessage(message)
+  }
+
+  private receive(data: unknown): void {
+    const message = data as Partial<SyncMessage> | null
+    if (!this.map || !message || message.protocol !== 'turbomap-sync' || message.replica === this.replicaId) {
+      return
+    }
+    globalErrorRecovery.executeWithRecovery(
+      () => {
+        if (message.type === 'hello') {
+          this.broadcast(Array.from(this.versions.values(), version => this.toUpdate(version)))
+        } else if (message.type === 'update' && Array.isArray(message.updates)) {
+          for (const update of message.updates) {
+            this.merge(update)
+          }
+        }
+      },
+      () => {
+        console.warn(`WorkerSync: Could not apply message from replica ${message.replica}`)
+      },
+      'workerSyncReceive',
+      ErrorType.PLUGIN
+    )
+  }
+
+  private merge(update: SyncUpdate): void {
+    const map = this.map as EnhancedTurboMapLike<K, V>
+    const key = globalTypedCodec.decode(update.k) as K
+    const serializedKey = map.getSerializedKey(key)
+    const local = this.versions.get(serializedKey)
+
+    if (local && !this.wins(update, local)) {
+      // The local version stays, having now seen the remote one
+      local.clock = mergeClocks(local.clock, update.clock)
+      return
+    }
+
+    this.applying = true
+    try {
+      if (update.v === undefined) {
+        map.delete(key)
+      } else {
+        map.set(key, globalTypedCodec.decode(update.v) as V)
+      }
+    } finally {
+      this.applying = false
+    }
+    this.versions.set(serializedKey, {
+      key,
+      value: update.v,
+      clock: local ? mergeClocks(local.clock, update.clock) : { ...update.clock },
+      time: update.time,
+      replica: update.replica
+    })
+  }
+
+  private wins(update: SyncUpdate, local: EntryVersion<K>): boolean {
+    switch (compareClocks(update.clock, local.clock)) {
+      case 'after':
+        return true
+      case 'concurrent':
+        return update.time !== local.time ? update.time > local.time : update.replica > local.replica
+      default:
+        return false
+    }
+  }
+}
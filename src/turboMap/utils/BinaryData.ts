@@ -0,0 +1,98 @@
+/**
+ * Helpers for typed arrays, ArrayBuffer and DataView values
+ */
+
+const TYPED_ARRAYS = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array
+} as const
+
+/**
+ * Binary value kinds, named after their constructors
+ */
+export type BinaryDataType = keyof typeof TYPED_ARRAYS | 'ArrayBuffer' | 'DataView'
+
+/**
+ * Check for a value whose identity is its bytes
+ */
+export function isBinaryData(value: unknown): value is ArrayBuffer | ArrayBufferView {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value)
+}
+
+/**
+ * Copy the bytes of a binary value, with the name needed to rebuild it
+ */
+export function toBinaryData(value: ArrayBuffer | ArrayBufferView): { type: BinaryDataType; bytes: Uint8Array } {
+  if (value instanceof ArrayBuffer) {
+    return { type: 'ArrayBuffer', bytes: new Uint8Array(value.slice(0)) }
+  }
+  const type = value instanceof DataView
+    ? 'DataView'
+    : (value as unknown as { [Symbol.toStringTag]: string })[Symbol.toStringTag] as BinaryDataType
+  return { type, bytes: new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice() }
+}
+
+/**
+ * Rebuild a binary value from its type name and bytes
+ */
+export function fromBinaryData(type: string, bytes: Uint8Array): ArrayBuffer | ArrayBufferView {
+  const buffer = bytes.slice().buffer
+  if (type === 'ArrayBuffer') return buffer
+  if (type === 'DataView') return new DataView(buffer)
+
+  if (!Object.prototype.hasOwnProperty.call(TYPED_ARRAYS, type)) {
+    throw new Error(`Unsupported binary type ${type}`)
+  }
+  return new TYPED_ARRAYS[type as keyof typeof TYPED_ARRAYS](buffer)
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = ''
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error('Invalid hex string')
+  }
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+let crcTable: Uint32Array | null = null
+
+/**
+ * CRC-32 (IEEE) checksum of a byte sequence
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
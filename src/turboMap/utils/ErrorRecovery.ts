@@ -23,6 +23,7 @@ export enum ErrorType {
   ITERATION = 'iteration',
   PLUGIN = 'plugin',
   MEMORY = 'memory',
+  QUOTA = 'quota',
   UNKNOWN = 'unknown'
 }
 
@@ -116,6 +117,14 @@ export class ErrorRecoveryManager {
       fallbackMode: true
     })
 
+    // Storage quota errors - retrying cannot free space, and other writes may still fit
+    this.policies.set(ErrorType.QUOTA, {
+      maxRetries: 0,
+      retryDelay: 0,
+      escalationThreshold: 1,
+      fallbackMode: false
+    })
+
     // Unknown errors - minimal retries
     this.policies.set(ErrorType.UNKNOWN, {
       maxRetries: 1,
@@ -3,12 +3,22 @@
  */
 
 import { TypeUtils } from './TypeUtils'
+import { globalSymbolRegistry, type SymbolIdentityMode } from './SymbolRegistry'
+
+/**
+ * Hashing options; symbols follow the same identity modes as serialized keys
+ */
+export interface FastHashOptions {
+  symbolIdentity: SymbolIdentityMode
+}
+
+type HashStrategy = (obj: unknown, options: FastHashOptions) => string | null
 
 /**
  * Enhanced fast hash implementation with multiple strategies
  */
 export class FastHasher {
-  private strategyCache = new Map<string, (obj: unknown) => string | null>()
+  private strategyCache = new Map<string, HashStrategy>()
   private hitCount = 0
   private totalCount = 0
 
@@ -22,35 +32,25 @@ export class FastHasher {
   private initializeStrategies(): void {
     // Primitive strategies
     this.strategyCache.set('primitive:number', (obj) => `num:${obj}`)
-    this.strategyCache.set('primitive:string', (obj) => `str:${obj}`)
+    this.strategyCache.set('primitive:string', (obj) => `str:${TypeUtils.quoteString(obj as string)}`)
     this.strategyCache.set('primitive:boolean', (obj) => `bool:${obj}`)
     this.strategyCache.set('primitive:null', () => 'null')
     this.strategyCache.set('primitive:undefined', () => 'undefined')
-    this.strategyCache.set('primitive:symbol', (obj) => `sym:${(obj as symbol).toString()}`)
+    this.strategyCache.set('primitive:symbol', (obj, options) => this.hashSymbol(obj as symbol, options.symbolIdentity))
     this.strategyCache.set('primitive:bigint', (obj) => `big:${(obj as bigint).toString()}`)
 
     // Object strategies
     this.strategyCache.set('date', (obj) => `d:${(obj as Date).getTime()}`)
-    this.strategyCache.set('regexp', (obj) => `r:${(obj as RegExp).toString()}`)
-    this.strategyCache.set('error', (obj) => `err:${(obj as Error).name}:${(obj as Error).message}`)
-    this.strategyCache.set('function', (obj) => `fn:${(obj as Function).name || 'anonymous'}:${(obj as Function).length}`)
+    this.strategyCache.set('regexp', (obj) => `r:${TypeUtils.escapeKeyText((obj as RegExp).toString())}`)
+    this.strategyCache.set('error', (obj) => `err:${TypeUtils.escapeKeyText((obj as Error).name, ':')}:${TypeUtils.escapeKeyText((obj as Error).message)}`)
+    this.strategyCache.set('function', (obj) => `fn:${TypeUtils.escapeKeyText((obj as Function).name || 'anonymous')}:${(obj as Function).length}`)
 
     // Array strategy
-    this.strategyCache.set('array', (obj) => {
-      const arr = obj as unknown[]
-      if (arr.length === 0) return 'arr:[]'
-      const items = arr.map(item => {
-        if (this.isPrimitive(item)) {
-          return String(item)
-        }
-        return 'complex'
-      })
-      return `arr:${arr.length}:${items.join(',')}`
-    })
+    this.strategyCache.set('array', (obj, options) => this.hashSimpleArray(obj as unknown[], options))
 
     // Simple object strategies
     for (let i = 0; i <= 5; i++) {
-      this.strategyCache.set(`object:${i}:`, (_obj) => this.hashSimpleObject(_obj))
+      this.strategyCache.set(`object:${i}:`, (_obj, options) => this.hashSimpleObject(_obj, options))
     }
   }
 
@@ -70,7 +70,7 @@ export class FastHasher {
   /**
    * Fast hash for simple objects
    */
-  fastHash(obj: unknown): string | null {
+  fastHash(obj: unknown, options: FastHashOptions = { symbolIdentity: 'collapse' }): string | null {
     this.totalCount++
     
     try {
@@ -78,7 +78,7 @@ export class FastHasher {
       const signature = TypeUtils.getObjectSignature(obj)
       const cached = this.strategyCache.get(signature)
       if (cached) {
-        const result = cached(obj)
+        const result = cached(obj, options)
         if (result) {
           this.hitCount++
           return result
@@ -90,7 +90,7 @@ export class FastHasher {
         const type = obj === null ? 'null' : typeof obj
         const strategy = this.strategyCache.get(`primitive:${type}`)
         if (strategy) {
-          const result = strategy(obj)
+          const result = strategy(obj, options)
           if (result) {
             this.strategyCache.set(signature, strategy)
             return result
@@ -101,7 +101,7 @@ export class FastHasher {
       if (obj instanceof Date) {
         const strategy = this.strategyCache.get('date')
         if (strategy) {
-          const result = strategy(obj)
+          const result = strategy(obj, options)
           if (result) {
             this.strategyCache.set(signature, strategy)
             return result
@@ -112,7 +112,7 @@ export class FastHasher {
       if (obj instanceof RegExp) {
         const strategy = this.strategyCache.get('regexp')
         if (strategy) {
-          const result = strategy(obj)
+          const result = strategy(obj, options)
           if (result) {
             this.strategyCache.set(signature, strategy)
             return result
@@ -123,7 +123,7 @@ export class FastHasher {
       if (obj instanceof Error) {
         const strategy = this.strategyCache.get('error')
         if (strategy) {
-          const result = strategy(obj)
+          const result = strategy(obj, options)
           if (result) {
             this.strategyCache.set(signature, strategy)
             return result
@@ -134,7 +134,7 @@ export class FastHasher {
       if (typeof obj === 'function') {
         const strategy = this.strategyCache.get('function')
         if (strategy) {
-          const result = strategy(obj)
+          const result = strategy(obj, options)
           if (result) {
             this.strategyCache.set(signature, strategy)
             return result
@@ -145,16 +145,16 @@ export class FastHasher {
       if (Array.isArray(obj)) {
         const strategy = this.strategyCache.get('array')
         if (strategy) {
-          const result = strategy(obj)
+          const result = strategy(obj, options)
           if (result) {
             this.strategyCache.set(signature, strategy)
             return result
           }
         }
         // Fallback to simple array hashing
-        const result = this.hashSimpleArray(obj)
+        const result = this.hashSimpleArray(obj, options)
         if (result) {
-          this.strategyCache.set(signature, (obj) => this.hashSimpleArray(obj as unknown[]))
+          this.strategyCache.set(signature, (obj, options) => this.hashSimpleArray(obj as unknown[], options))
           return result
         }
       }
@@ -166,7 +166,7 @@ export class FastHasher {
           if (keys.length <= i) {
             const strategy = this.strategyCache.get(`object:${i}:`)
             if (strategy) {
-              const result = strategy(obj)
+              const result = strategy(obj, options)
               if (result) {
                 this.strategyCache.set(signature, strategy)
                 return result
@@ -179,7 +179,7 @@ export class FastHasher {
       // Try custom strategies (but not object strategies)
       for (const [key, strategy] of this.strategyCache.entries()) {
         if (!key.startsWith('object:') && !key.startsWith('primitive:')) {
-          const result = strategy(obj)
+          const result = strategy(obj, options)
           if (result) {
             this.strategyCache.set(signature, strategy)
             return result
@@ -188,9 +188,9 @@ export class FastHasher {
       }
 
       // Try simple object hashing as last resort
-      const result = this.hashSimpleObject(obj)
+      const result = this.hashSimpleObject(obj, options)
       if (result) {
-        this.strategyCache.set(signature, (_obj) => this.hashSimpleObject(_obj))
+        this.strategyCache.set(signature, (_obj, options) => this.hashSimpleObject(_obj, options))
         return result
       }
 
@@ -201,17 +201,17 @@ export class FastHasher {
   }
 
   /**
-   * Hash simple object with known structure
+   * Hash simple object with known structure; null when a value cannot be hashed exactly
    */
-  private hashSimpleObject(obj: unknown, depth: number = 0, visited: WeakSet<object> = new WeakSet()): string | null {
+  private hashSimpleObject(obj: unknown, options: FastHashOptions, depth: number = 0, visited: WeakSet<object> = new WeakSet()): string | null {
     try {
       // Prevent infinite recursion
       if (depth > 10) {
-        return 'obj:max_depth'
+        return null
       }
       
-      // Basic object check
-      if (typeof obj !== 'object' || obj === null) {
+      // Basic object check, leaving out built-ins whose contents are not own properties
+      if (typeof obj !== 'object' || obj === null || this.isOpaqueObject(obj)) {
         return null
       }
 
@@ -226,24 +226,12 @@ export class FastHasher {
       const keys = Object.keys(obj as Record<string, unknown>).sort()
       if (keys.length === 0) return 'obj:{}'
       
-      const pairs = keys.map(key => {
-        const value = (obj as Record<string, unknown>)[key]
-        if (this.isPrimitive(value)) {
-          return `${key}:${value}`
-        }
-        // For nested objects, include their content for better uniqueness
-        if (typeof value === 'object' && value !== null) {
-          if (Array.isArray(value)) {
-            const arrayHash = this.hashSimpleArray(value)
-            return `${key}:${arrayHash || 'complex'}`
-          } else {
-            // Recursively hash nested objects with depth limit
-            const nestedHash = this.hashSimpleObject(value, depth + 1, visited)
-            return `${key}:${nestedHash || 'complex'}`
-          }
-        }
-        return `${key}:complex`
-      })
+      const pairs: string[] = []
+      for (const key of keys) {
+        const valueHash = this.hashValue((obj as Record<string, unknown>)[key], options, depth, visited)
+        if (valueHash === null) return null
+        pairs.push(`${TypeUtils.quoteString(key)}:${valueHash}`)
+      }
       
       return `obj:{${pairs.join(',')}}`
     } catch {
@@ -252,25 +240,66 @@ export class FastHasher {
   }
 
   /**
-   * Hash simple array with primitive values
+   * Hash simple array; null when an item cannot be hashed exactly
    */
-  private hashSimpleArray(arr: unknown[]): string | null {
+  private hashSimpleArray(arr: unknown[], options: FastHashOptions, depth: number = 0, visited: WeakSet<object> = new WeakSet()): string | null {
     try {
       if (arr.length === 0) return 'arr:[]'
       
-      const items = arr.map(item => {
-        if (this.isPrimitive(item)) {
-          return String(item)
-        }
-        return 'complex'
-      })
+      const items: string[] = []
+      for (const item of arr) {
+        const itemHash = this.hashValue(item, options, depth, visited)
+        if (itemHash === null) return null
+        items.push(itemHash)
+      }
       
-      return `arr:${arr.length}:${items.join(',')}`
+      return `arr:${arr.length}:[${items.join(',')}]`
     } catch {
       return null
     }
   }
 
+  /**
+   * Hash a nested value with the strategy for its type
+   */
+  private hashValue(value: unknown, options: FastHashOptions, depth: number, visited: WeakSet<object>): string | null {
+    const typed = (name: string) => this.strategyCache.get(name)?.(value, options) ?? null
+    if (this.isPrimitive(value)) return typed(`primitive:${value === null ? 'null' : typeof value}`)
+    if (value instanceof Date) return typed('date')
+    if (value instanceof RegExp) return typed('regexp')
+    if (value instanceof Error) return typed('error')
+    if (typeof value === 'function') return typed('function')
+    if (Array.isArray(value)) return this.hashSimpleArray(value, options, depth + 1, visited)
+    return this.hashSimpleObject(value, options, depth + 1, visited)
+  }
+
+  /**
+   * Hash a symbol; registered symbols always hash by their key
+   */
+  private hashSymbol(sym: symbol, symbolIdentity: SymbolIdentityMode): string {
+    const globalKey = Symbol.keyFor(sym)
+    if (globalKey !== undefined) return `sym:for:${TypeUtils.quoteString(globalKey)}`
+    if (symbolIdentity === 'identity') return `sym:#${globalSymbolRegistry.identify(sym)}`
+    if (symbolIdentity === 'description' && sym.description !== undefined) {
+      return `sym:${TypeUtils.quoteString(sym.description)}`
+    }
+    return 'sym:'
+  }
+
+  /**
+   * Built-in objects that would look empty when hashed by their own properties
+   */
+  private isOpaqueObject(obj: object): boolean {
+    return obj instanceof Map ||
+           obj instanceof Set ||
+           obj instanceof ArrayBuffer ||
+           ArrayBuffer.isView(obj) ||
+           obj instanceof URL ||
+           obj instanceof Date ||
+           obj instanceof RegExp ||
+           obj instanceof Error
+  }
+
   /**
    * Get unique object identifier
    */
@@ -302,7 +331,7 @@ export class FastHasher {
   /**
    * Add custom strategy
    */
-  addStrategy(signature: string, strategy: (obj: unknown) => string | null): void {
+  addStrategy(signature: string, strategy: HashStrategy): void {
     try {
       if (typeof signature === 'string' && typeof strategy === 'function') {
         this.strategyCache.set(signature, strategy)
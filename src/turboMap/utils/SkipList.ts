@@ -0,0 +1,175 @@
+/**
+ * Skip list for ordered collections
+ */
+
+interface SkipListNode<T> {
+  item: T | undefined // undefined only for the head
+  next: Array<SkipListNode<T> | null>
+}
+
+/**
+ * Probabilistic ordered list with O(log n) insert, remove and neighbour search
+ */
+export class SkipList<T> {
+  private head: SkipListNode<T>
+  private level = 1
+  private count = 0
+  private compare: (a: T, b: T) => number
+  private maxLevel: number
+
+  constructor(compare: (a: T, b: T) => number, maxLevel: number = 32) {
+    this.compare = compare
+    this.maxLevel = maxLevel
+    this.head = { item: undefined, next: new Array(maxLevel).fill(null) }
+  }
+
+  get size(): number {
+    return this.count
+  }
+
+  /**
+   * Insert an item, replacing an equal one; returns false if it replaced
+   */
+  insert(item: T): boolean {
+    const update = this.findPredecessors(item)
+    const existing = update[0]!.next[0]
+    if (existing && this.compare(existing.item as T, item) === 0) {
+      existing.item = item
+      return false
+    }
+
+    const level = this.randomLevel()
+    if (level > this.level) {
+      for (let i = this.level; i < level; i++) {
+        update[i] = this.head
+      }
+      this.level = level
+    }
+
+    const node: SkipListNode<T> = { item, next: new Array(level).fill(null) }
+    for (let i = 0; i < level; i++) {
+      const predecessor = update[i]!
+      node.next[i] = predecessor.next[i] ?? null
+      predecessor.next[i] = node
+    }
+    this.count++
+    return true
+  }
+
+  remove(item: T): boolean {
+    const update = this.findPredecessors(item)
+    const target = update[0]!.next[0]
+    if (!target || this.compare(target.item as T, item) !== 0) {
+      return false
+    }
+
+    for (let i = 0; i < this.level; i++) {
+      const predecessor = update[i]!
+      if (predecessor.next[i] !== target) break
+      predecessor.next[i] = target.next[i] ?? null
+    }
+    while (this.level > 1 && !this.head.next[this.level - 1]) {
+      this.level--
+    }
+    this.count--
+    return true
+  }
+
+  /**
+   * Greatest item less than or equal to the probe
+   */
+  floor(probe: T): T | undefined {
+    let current = this.head
+    for (let i = this.level - 1; i >= 0; i--) {
+      let next = current.next[i]
+      while (next && this.compare(next.item as T, probe) <= 0) {
+        current = next
+        next = current.next[i]
+      }
+    }
+    return current === this.head ? undefined : current.item
+  }
+
+  /**
+   * Least item greater than or equal to the probe
+   */
+  ceiling(probe: T): T | undefined {
+    return this.ceilingNode(probe)?.item
+  }
+
+  first(): T | undefined {
+    return this.head.next[0]?.item
+  }
+
+  last(): T | undefined {
+    let current = this.head
+    for (let i = this.level - 1; i >= 0; i--) {
+      let next = current.next[i]
+      while (next) {
+        current = next
+        next = current.next[i]
+      }
+    }
+    return current === this.head ? undefined : current.item
+  }
+
+  /**
+   * Items between the bounds, both inclusive
+   */
+  *range(from: T, to: T): IterableIterator<T> {
+    let node = this.ceilingNode(from)
+    while (node && this.compare(node.item as T, to) <= 0) {
+      yield node.item as T
+      node = node.next[0] ?? null
+    }
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    let node = this.head.next[0]
+    while (node) {
+      yield node.item as T
+      node = node.next[0] ?? null
+    }
+  }
+
+  clear(): void {
+    this.head.next.fill(null)
+    this.level = 1
+    this.count = 0
+  }
+
+  private ceilingNode(probe: T): SkipListNode<T> | null {
+    let current = this.head
+    for (let i = this.level - 1; i >= 0; i--) {
+      let next = current.next[i]
+      while (next && this.compare(next.item as T, probe) < 0) {
+        current = next
+        next = current.next[i]
+      }
+    }
+    return current.next[0] ?? null
+  }
+
+  // Last node before the item on every level
+  private findPredecessors(item: T): Array<SkipListNode<T>> {
+    const update = new Array<SkipListNode<T>>(this.maxLevel)
+    let current = this.head
+    for (let i = this.level - 1; i >= 0; i--) {
+      let next = current.next[i]
+      while (next && this.compare(next.item as T, item) < 0) {
+        current = next
+        next = current.next[i]
+      }
+      update[i] = current
+    }
+    return update
+  }
+
+  private randomLevel(): number {
+    let level = 1
+    while (level < this.maxLevel && Math.random() < 0.5) {
+      level++
+    }
+    return level
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Symbol identity for serialized keys
+ */
+
+/**
+ * How symbols that are not registered with Symbol.for() are told apart:
+ * - collapse: all of them are the same key
+ * - description: symbols with the same description are the same key
+ * - identity: every symbol is its own key
+ */
+export type SymbolIdentityMode = 'collapse' | 'description' | 'identity'
+
+/**
+ * Hands out a number per symbol, held weakly where the runtime allows symbols as
+ * WeakMap keys
+ */
+export class SymbolRegistry {
+  private ids: WeakMap<object, number> | Map<symbol, number>
+  private nextId = 0
+
+  constructor() {
+    this.ids = SymbolRegistry.supportsWeakSymbols() ? new WeakMap<object, number>() : new Map<symbol, number>()
+  }
+
+  /**
+   * Number for a symbol that is not registered with Symbol.for()
+   */
+  identify(sym: symbol): number {
+    const key = sym as never
+    let id = this.ids.get(key)
+    if (id === undefined) {
+      id = this.nextId++
+      this.ids.set(key, id)
+    }
+    return id
+  }
+
+  private static supportsWeakSymbols(): boolean {
+    try {
+      new WeakMap().set(Symbol() as never, 0)
+      return true
+    } catch {
+      return false
+    }
+  }
+}
+
+// Global instance
+export const globalSymbolRegistry = new SymbolRegistry()
@@ -154,6 +154,25 @@ export class TypeUtils {
     }
   }
 
+  /**
+   * Quote a string for a serialized key; JSON escaping keeps quoted strings unambiguous
+   */
+  static quoteString(value: string): string {
+    return JSON.stringify(value)
+  }
+
+  /**
+   * Escape free text embedded in a bracketed key tag such as `[Error:name:message]`; a field
+   * followed by another one also escapes the separator
+   */
+  static escapeKeyText(text: string, separator = ''): string {
+    let escaped = ''
+    for (const char of text) {
+      escaped += '\\[]<>'.includes(char) || char === separator ? `\\${char}` : char
+    }
+    return escaped
+  }
+
   /**
    * Safe property access
    */
@@ -0,0 +1,65 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+describe('Bounded Capacity', () => {
+  test('should evict least recently used entries by default', () => {
+    const map = createEnhancedTurboMap<{ id: number }, string>({ maxEntries: 2 });
+
+    map.set({ id: 1 }, 'one');
+    map.set({ id: 2 }, 'two');
+    map.get({ id: 1 });
+    map.set({ id: 3 }, 'three');
+
+    expect(map.size).toBe(2);
+    expect(map.has({ id: 1 })).toBe(true);
+    expect(map.has({ id: 2 })).toBe(false);
+    expect(map.has({ id: 3 })).toBe(true);
+  });
+
+  test('should honour the fifo policy', () => {
+    const map = createEnhancedTurboMap<string, number>({ maxEntries: 2, evictionPolicy: 'fifo' });
+
+    map.set('a', 1);
+    map.set('b', 2);
+    map.get('a');
+    map.set('c', 3);
+
+    expect(Array.from(map.keys())).toEqual(['b', 'c']);
+  });
+
+  test('should honour the lfu policy', () => {
+    const map = createEnhancedTurboMap<string, number>({ maxEntries: 2, evictionPolicy: 'lfu' });
+
+    map.set('a', 1);
+    map.set('b', 2);
+    map.get('a');
+    map.get('a');
+    map.get('b');
+    map.set('c', 3);
+
+    expect(map.has('a')).toBe(true);
+    expect(map.has('b')).toBe(false);
+  });
+
+  test('should not evict when overwriting an existing key', () => {
+    const map = createEnhancedTurboMap<string, number>({ maxEntries: 2 });
+
+    map.set('a', 1);
+    map.set('b', 2);
+    map.set('a', 10);
+
+    expect(map.size).toBe(2);
+    expect(map.getMetrics().evictions).toBe(0);
+  });
+
+  test('should notify plugins and count evictions', async () => {
+    const map = createEnhancedTurboMap<{ id: number }, string>({ maxEntries: 1 });
+    const onEvict = jest.fn();
+    await map.addPlugin({ name: 'evict-observer', onEvict });
+
+    map.set({ id: 1 }, 'one');
+    map.set({ id: 2 }, 'two');
+
+    expect(onEvict).toHaveBeenCalledWith({ id: 1 }, 'one');
+    expect(map.getMetrics().evictions).toBe(1);
+  });
+});
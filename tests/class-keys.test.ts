@@ -0,0 +1,103 @@
+import { createEnhancedTurboMap, createTurboSet, globalClassTagRegistry, AdaptiveSerializer } from '../src/index';
+
+class UserId {
+  constructor(public id: number) {}
+}
+
+class OrderId {
+  constructor(public id: number) {}
+}
+
+describe('Class-Aware Keys', () => {
+  afterEach(() => {
+    globalClassTagRegistry.unregister(UserId);
+    globalClassTagRegistry.unregister(OrderId);
+  });
+
+  test('should keep structural matching across classes by default', () => {
+    const map = createEnhancedTurboMap<object, string>();
+
+    map.set(new UserId(1), 'user');
+    map.set(new OrderId(1), 'order');
+
+    expect(map.size).toBe(1);
+    expect(map.get({ id: 1 })).toBe('order');
+  });
+
+  test('should separate instances of different classes with distinguishClasses', () => {
+    const map = createEnhancedTurboMap<object, string>({ distinguishClasses: true });
+
+    map.set(new UserId(1), 'user');
+    map.set(new OrderId(1), 'order');
+
+    expect(map.size).toBe(2);
+    expect(map.get(new UserId(1))).toBe('user');
+    expect(map.get(new OrderId(1))).toBe('order');
+    expect(map.has({ id: 1 })).toBe(false);
+  });
+
+  test('should tag nested instances', () => {
+    const map = createEnhancedTurboMap<object, string>({ distinguishClasses: true });
+
+    map.set({ owner: new UserId(1) }, 'user-owned');
+
+    expect(map.get({ owner: new UserId(1) })).toBe('user-owned');
+    expect(map.has({ owner: new OrderId(1) })).toBe(false);
+    expect(map.has({ owner: { id: 1 } })).toBe(false);
+  });
+
+  test('should use registered tags in serialized keys', () => {
+    globalClassTagRegistry.register(UserId, 'app.UserId');
+    const map = createEnhancedTurboMap<object, string>({ distinguishClasses: true });
+
+    expect(map.getSerializedKey(new UserId(7))).toBe('<app.UserId>{"id":7}');
+    expect(map.getSerializedKey({ id: 7 })).toBe('{"id":7}');
+  });
+
+  test('should keep registered class keys through serialize and toBinary', () => {
+    globalClassTagRegistry.register(UserId, 'app.UserId');
+    const map = createEnhancedTurboMap<object, string>({ distinguishClasses: true });
+    map.set(new UserId(1), 'user');
+    map.set({ id: 1 }, 'plain');
+
+    const fromJson = createEnhancedTurboMap.deserialize<object, string>(map.serialize(), { distinguishClasses: true });
+    const fromBinary = createEnhancedTurboMap<object, string>({ distinguishClasses: true });
+    fromBinary.fromBinary(map.toBinary());
+
+    for (const restored of [fromJson, fromBinary]) {
+      expect(restored.size).toBe(2);
+      expect(restored.get(new UserId(1))).toBe('user');
+      expect(restored.get({ id: 1 })).toBe('plain');
+      expect(Array.from(restored.keys()).some(key => key instanceof UserId)).toBe(true);
+    }
+  });
+
+  test('should refuse to decode a class tag that is not registered', () => {
+    globalClassTagRegistry.register(UserId, 'app.UserId');
+    const map = createEnhancedTurboMap<object, string>({ distinguishClasses: true });
+    map.set(new UserId(1), 'user');
+    const json = map.serialize();
+    const binary = map.toBinary();
+    globalClassTagRegistry.unregister(UserId);
+
+    expect(() => createEnhancedTurboMap.deserialize(json)).toThrow('Unknown class tag "app.UserId"');
+    expect(() => createEnhancedTurboMap.fromBinary(binary)).toThrow('Unknown class tag "app.UserId"');
+  });
+
+  test('should not share cached results between modes', () => {
+    const serializer = new AdaptiveSerializer();
+    const key = new UserId(2);
+    globalClassTagRegistry.register(UserId, 'UserId');
+
+    expect(serializer.serialize(key)).toBe('{"id":2}');
+    expect(serializer.serialize(key, { distinguishClasses: true })).toBe('<UserId>{"id":2}');
+    expect(serializer.serialize(key)).toBe('{"id":2}');
+  });
+
+  test('should apply to the structural collections', () => {
+    const set = createTurboSet<object>([new UserId(1), new OrderId(1)], { distinguishClasses: true });
+
+    expect(set.size).toBe(2);
+    expect(set.has(new OrderId(1))).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+import { BinaryCodec } from '../../src/turboMap/core/BinaryCodec';
+import { TypedCodec } from '../../src/turboMap/core/TypedCodec';
+import { AdaptiveSerializer } from '../../src/turboMap/core/Serializer';
+import { createEnhancedTurboMap } from '../../src/turboMap';
+
+describe('BinaryCodec', () => {
+  let codec: BinaryCodec;
+
+  const roundTrip = (value: unknown) => codec.decode(codec.encode(value));
+
+  beforeEach(() => {
+    codec = new BinaryCodec(new TypedCodec(new AdaptiveSerializer(false, false)));
+  });
+
+  describe('Primitives', () => {
+    test('should use single bytes for small integers and short strings', () => {
+      expect(codec.encode(7)).toEqual(new Uint8Array([7]));
+      expect(codec.encode('ab')).toEqual(new Uint8Array([0xa2, 0x61, 0x62]));
+      expect(codec.encode(null)).toEqual(new Uint8Array([0xc0]));
+      expect(codec.encode(true)).toEqual(new Uint8Array([0xc3]));
+    });
+
+    test('should round-trip numbers of every width', () => {
+      for (const value of [0, 127, 128, -1, -2147483648, 2147483647, 2 ** 40, 1.5, NaN, Infinity, -Infinity]) {
+        expect(roundTrip(value)).toBe(value);
+      }
+      expect(Object.is(roundTrip(-0), -0)).toBe(true);
+    });
+
+    test('should round-trip strings, bigint, undefined and symbols', () => {
+      const long = 'x'.repeat(100);
+      expect(roundTrip(long)).toBe(long);
+      expect(roundTrip('héllo ✓')).toBe('héllo ✓');
+      expect(roundTrip(-12345678901234567890n)).toBe(-12345678901234567890n);
+      expect(roundTrip(undefined)).toBeUndefined();
+      expect(roundTrip(Symbol.for('shared'))).toBe(Symbol.for('shared'));
+      expect((roundTrip(Symbol('local')) as symbol).description).toBe('local');
+    });
+  });
+
+  describe('Objects', () => {
+    test('should round-trip dates, regexps, errors and functions', () => {
+      const date = roundTrip(new Date(1700000000000)) as Date;
+      expect(date).toBeInstanceOf(Date);
+      expect(date.getTime()).toBe(1700000000000);
+
+      const regexp = roundTrip(/a+b/gi) as RegExp;
+      expect(regexp.source).toBe('a+b');
+      expect(regexp.flags).toBe('gi');
+
+      const error = roundTrip(new TypeError('bad')) as Error;
+      expect(error.name).toBe('TypeError');
+      expect(error.message).toBe('bad');
+
+      const fn = roundTrip(function handler(_a: number, _b: number) {}) as Function;
+      expect(fn.name).toBe('handler');
+      expect(fn.length).toBe(2);
+    });
+
+    test('should round-trip nested arrays, objects, maps and sets', () => {
+      const value = {
+        list: [1, 'two', { three: 3n }],
+        lookup: new Map<unknown, unknown>([['a', new Set([1, 2])]]),
+        when: new Date(0)
+      };
+
+      expect(roundTrip(value)).toEqual(value);
+    });
+
+    test('should keep a __proto__ key as data', () => {
+      const decoded = roundTrip(JSON.parse('{"__proto__": {"polluted": true}}')) as Record<string, unknown>;
+
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(Object.keys(decoded)).toEqual(['__proto__']);
+    });
+
+    test('should reject circular structures', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      expect(() => codec.encode(circular)).toThrow('Circular');
+    });
+
+    test('should round-trip binary values and URLs', () => {
+      const big = roundTrip(new BigInt64Array([-1n, 2n])) as BigInt64Array;
+      expect(big).toBeInstanceOf(BigInt64Array);
+      expect(Array.from(big)).toEqual([-1n, 2n]);
+
+      expect(new Uint8Array(roundTrip(new Uint8Array([1, 2]).buffer) as ArrayBuffer)).toEqual(new Uint8Array([1, 2]));
+      expect((roundTrip(new DataView(new ArrayBuffer(3))) as DataView).byteLength).toBe(3);
+      expect((roundTrip(new URL('https://example.com/?q=1')) as URL).href).toBe('https://example.com/?q=1');
+    });
+  });
+
+  describe('Snapshots', () => {
+    test('should round-trip entries with a header', () => {
+      const bytes = codec.encodeEntries([[1, 'a'], [{ id: 2 }, [true]]]);
+
+      expect(Array.from(bytes.subarray(0, 4))).toEqual([0x54, 0x4d, 0x42, 1]);
+      expect(codec.decodeEntries(bytes)).toEqual([[1, 'a'], [{ id: 2 }, [true]]]);
+    });
+
+    test('should reject malformed input', () => {
+      const bytes = codec.encodeEntries([['key', 'value']]);
+
+      expect(() => codec.decodeEntries(new Uint8Array([1, 2, 3, 4]))).toThrow('Not a TurboMap snapshot');
+      expect(() => codec.decodeEntries(bytes.subarray(0, bytes.length - 1))).toThrow('Unexpected end of data');
+      expect(() => codec.decodeEntries(new Uint8Array([...bytes, 0]))).toThrow('Trailing data');
+    });
+  });
+
+  describe('Map integration', () => {
+    test('should restore keys and values through toBinary/fromBinary', () => {
+      const map = createEnhancedTurboMap<unknown, unknown>();
+      map.set({ id: 1 }, new Date(5));
+      map.set(10n, /x/g);
+
+      const restored = createEnhancedTurboMap.fromBinary<unknown, unknown>(map.toBinary());
+
+      expect(restored.size).toBe(2);
+      expect((restored.get({ id: 1 }) as Date).getTime()).toBe(5);
+      expect((restored.get(10n) as RegExp).flags).toBe('g');
+    });
+
+    test('should replace contents and keep them on a corrupt snapshot', () => {
+      const source = createEnhancedTurboMap<string, number>([['a', 1]]);
+      const target = createEnhancedTurboMap<string, number>([['b', 2]]);
+
+      target.fromBinary(source.toBinary());
+      expect(Array.from(target.entries())).toEqual([['a', 1]]);
+
+      expect(() => target.fromBinary(new Uint8Array([0]))).toThrow();
+      expect(target.get('a')).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { ChangeEmitter } from '../../src/turboMap/core/ChangeEmitter';
+
+describe('ChangeEmitter', () => {
+  const event = (type: 'set' | 'delete') => ({
+    type,
+    key: 'k',
+    oldValue: undefined,
+    newValue: 1,
+    timestamp: 0
+  });
+
+  test('should deliver events to subscribers until unsubscribed', () => {
+    const emitter = new ChangeEmitter<string, number>();
+    const listener = jest.fn();
+    const unsubscribe = emitter.subscribe(listener);
+
+    emitter.emit(event('set'));
+    unsubscribe();
+    emitter.emit(event('set'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(emitter.hasListeners()).toBe(false);
+  });
+
+  test('should route typed handlers by event type', () => {
+    const emitter = new ChangeEmitter<string, number>();
+    const onDelete = jest.fn();
+    emitter.on('delete', onDelete);
+
+    emitter.emit(event('set'));
+    emitter.emit(event('delete'));
+
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect(onDelete.mock.calls[0][0].type).toBe('delete');
+  });
+
+  test('should isolate failing listeners', () => {
+    const emitter = new ChangeEmitter<string, number>();
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const healthy = jest.fn();
+    emitter.subscribe(() => {
+      throw new Error('boom');
+    });
+    emitter.subscribe(healthy);
+
+    emitter.emit(event('set'));
+
+    expect(healthy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  test('should reject non-function listeners', () => {
+    const emitter = new ChangeEmitter<string, number>();
+    expect(() => emitter.subscribe(null as any)).toThrow();
+  });
+});
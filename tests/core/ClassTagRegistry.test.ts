@@ -0,0 +1,53 @@
+import { ClassTagRegistry } from '../../src/turboMap/core/ClassTagRegistry';
+
+describe('ClassTagRegistry', () => {
+  let registry: ClassTagRegistry;
+
+  beforeEach(() => {
+    registry = new ClassTagRegistry();
+  });
+
+  test('should derive tags from class names', () => {
+    class UserId {}
+    const makeOther = () => class UserId {};
+    const Other = makeOther();
+
+    expect(registry.tagOf(UserId)).toBe('UserId#0');
+    expect(registry.tagOf(Other)).toBe('UserId#1');
+    expect(registry.tagOf(UserId)).toBe('UserId#0');
+  });
+
+  test('should prefer registered tags', () => {
+    class OrderId {}
+    registry.register(OrderId, 'shop.OrderId');
+
+    expect(registry.tagOf(OrderId)).toBe('shop.OrderId');
+    expect(registry.getRegisteredTag(OrderId)).toBe('shop.OrderId');
+    expect(registry.unregister(OrderId)).toBe(true);
+    expect(registry.getRegisteredTag(OrderId)).toBeUndefined();
+    expect(registry.unregister(OrderId)).toBe(false);
+  });
+
+  test('should reject invalid and duplicate tags', () => {
+    class A {}
+    class B {}
+    registry.register(A, 'tag');
+
+    expect(() => registry.register(B, 'tag')).toThrow('already registered');
+    expect(() => registry.register(B, '')).toThrow('Invalid class tag');
+    expect(() => registry.register(B, 'B#1')).toThrow('Invalid class tag');
+
+    registry.register(A, 'renamed');
+    registry.register(B, 'tag');
+    expect(registry.tagOf(B)).toBe('tag');
+  });
+
+  test('should not tag plain objects', () => {
+    class Point {}
+
+    expect(registry.tagOfInstance({})).toBeNull();
+    expect(registry.tagOfInstance(Object.create(null))).toBeNull();
+    expect(registry.tagOfInstance(Object.create({}))).toBeNull();
+    expect(registry.tagOfInstance(new Point())).toBe('Point#0');
+  });
+});
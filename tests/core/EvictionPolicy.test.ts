@@ -0,0 +1,82 @@
+import {
+  LRUEvictionPolicy,
+  LFUEvictionPolicy,
+  FIFOEvictionPolicy,
+  createEvictionPolicy
+} from '../../src/turboMap/core/EvictionPolicy';
+
+describe('EvictionPolicy', () => {
+  describe('LRUEvictionPolicy', () => {
+    test('should evict the least recently used key', () => {
+      const policy = new LRUEvictionPolicy();
+      policy.recordInsert('a');
+      policy.recordInsert('b');
+      policy.recordInsert('c');
+      policy.recordAccess('a');
+
+      expect(policy.selectVictim()).toBe('b');
+    });
+
+    test('should forget removed keys', () => {
+      const policy = new LRUEvictionPolicy();
+      policy.recordInsert('a');
+      policy.recordInsert('b');
+      policy.recordRemove('a');
+
+      expect(policy.selectVictim()).toBe('b');
+    });
+  });
+
+  describe('FIFOEvictionPolicy', () => {
+    test('should ignore access and overwrites', () => {
+      const policy = new FIFOEvictionPolicy();
+      policy.recordInsert('a');
+      policy.recordInsert('b');
+      policy.recordAccess('a');
+      policy.recordInsert('a');
+
+      expect(policy.selectVictim()).toBe('a');
+    });
+  });
+
+  describe('LFUEvictionPolicy', () => {
+    test('should evict the least frequently used key', () => {
+      const policy = new LFUEvictionPolicy();
+      policy.recordInsert('a');
+      policy.recordInsert('b');
+      policy.recordInsert('c');
+      policy.recordAccess('a');
+      policy.recordAccess('c');
+
+      expect(policy.selectVictim()).toBe('b');
+    });
+
+    test('should break ties by age', () => {
+      const policy = new LFUEvictionPolicy();
+      policy.recordInsert('a');
+      policy.recordInsert('b');
+      policy.recordAccess('a');
+      policy.recordAccess('b');
+
+      expect(policy.selectVictim()).toBe('a');
+    });
+
+    test('should recompute the minimum after removals', () => {
+      const policy = new LFUEvictionPolicy();
+      policy.recordInsert('a');
+      policy.recordInsert('b');
+      policy.recordAccess('b');
+      policy.recordRemove('a');
+
+      expect(policy.selectVictim()).toBe('b');
+      policy.clear();
+      expect(policy.selectVictim()).toBeUndefined();
+    });
+  });
+
+  test('should create policies by name', () => {
+    expect(createEvictionPolicy('lru')).toBeInstanceOf(LRUEvictionPolicy);
+    expect(createEvictionPolicy('lfu')).toBeInstanceOf(LFUEvictionPolicy);
+    expect(createEvictionPolicy('fifo')).toBeInstanceOf(FIFOEvictionPolicy);
+  });
+});
@@ -0,0 +1,87 @@
+import { canonicalForm, InjectivityGuard, KeyCollisionError, type CanonicalFormOptions } from '../../src/turboMap/core/KeyInjectivity';
+
+describe('KeyInjectivity', () => {
+  const options: CanonicalFormOptions = {
+    classTagOf: () => null,
+    symbolIdentity: 'collapse',
+    opaque: () => null,
+    maxDepth: 50
+  };
+
+  const form = (value: unknown) => JSON.stringify(canonicalForm(value, options));
+
+  describe('canonicalForm', () => {
+    test('should separate primitive types', () => {
+      const forms = [1, '1', 1n, true, 'true', null, undefined, 'undefined'].map(form);
+
+      expect(new Set(forms).size).toBe(forms.length);
+      expect(form(-0)).toBe(form(0));
+    });
+
+    test('should follow the symbol identity mode', () => {
+      const formIn = (value: unknown, symbolIdentity: CanonicalFormOptions['symbolIdentity']) =>
+        JSON.stringify(canonicalForm(value, { ...options, symbolIdentity }));
+
+      expect(form(Symbol('a'))).toBe(form(Symbol('b')));
+      expect(formIn(Symbol('a'), 'description')).toBe(formIn(Symbol('a'), 'description'));
+      expect(formIn(Symbol('a'), 'description')).not.toBe(formIn(Symbol('b'), 'description'));
+      expect(formIn(Symbol('a'), 'identity')).not.toBe(formIn(Symbol('a'), 'identity'));
+      expect(formIn(Symbol.for('a'), 'identity')).toBe(formIn(Symbol.for('a'), 'collapse'));
+    });
+
+    test('should ignore property and collection order', () => {
+      expect(form({ a: 1, b: [2] })).toBe(form({ b: [2], a: 1 }));
+      expect(form(new Set([1, 2]))).toBe(form(new Set([2, 1])));
+      expect(form(new Map([['a', 1], ['b', 2]]))).toBe(form(new Map([['b', 2], ['a', 1]])));
+      expect(form([1, 2])).not.toBe(form([2, 1]));
+    });
+
+    test('should describe class instances through the class tag hook', () => {
+      class Point {
+        constructor(public x: number) {}
+      }
+
+      expect(form(new Point(1))).toBe(form({ x: 1 }));
+
+      const tagged = JSON.stringify(canonicalForm(new Point(1), { ...options, classTagOf: obj => obj instanceof Point ? 'Point' : null }));
+      expect(tagged).not.toBe(form({ x: 1 }));
+    });
+
+    test('should stop at cycles and the depth limit', () => {
+      const cyclic: Record<string, unknown> = {};
+      cyclic.self = cyclic;
+
+      expect(form(cyclic)).toBe('["object",null,[["self",["circular"]]]]');
+      expect(JSON.stringify(canonicalForm([[1]], { ...options, maxDepth: 1 }))).toBe('["array",[["array",[["maxDepth"]]]]]');
+    });
+  });
+
+  describe('InjectivityGuard', () => {
+    test('should accept repeated keys and reject a second value for a key', () => {
+      const guard = new InjectivityGuard();
+
+      guard.check('a', '"a"', options);
+      guard.check('a', '"a"', options);
+      expect(() => guard.check('b', '"a"', options)).toThrow(KeyCollisionError);
+
+      guard.clear();
+      expect(() => guard.check('b', '"a"', options)).not.toThrow();
+    });
+
+    test('should name the colliding key', () => {
+      const guard = new InjectivityGuard();
+      guard.check(1, 'k', options);
+
+      let error: unknown;
+      try {
+        guard.check(2, 'k', options);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(KeyCollisionError);
+      expect((error as KeyCollisionError).serializedKey).toBe('k');
+      expect((error as Error).name).toBe('KeyCollisionError');
+    });
+  });
+});
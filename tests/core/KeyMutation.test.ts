@@ -0,0 +1,62 @@
+import { deepFreeze, snapshotKey } from '../../src/turboMap/core/KeyMutation';
+
+describe('KeyMutation', () => {
+  describe('deepFreeze', () => {
+    test('should freeze nested objects, arrays and collection members', () => {
+      const member = { id: 1 };
+      const key = { user: { name: 'a' }, tags: ['x'], members: new Set([member]) };
+
+      deepFreeze(key);
+
+      expect(Object.isFrozen(key)).toBe(true);
+      expect(Object.isFrozen(key.user)).toBe(true);
+      expect(Object.isFrozen(key.tags)).toBe(true);
+      expect(Object.isFrozen(member)).toBe(true);
+    });
+
+    test('should handle cycles, primitives and typed arrays', () => {
+      const cyclic: Record<string, unknown> = { bytes: new Uint8Array([1]) };
+      cyclic.self = cyclic;
+
+      expect(deepFreeze(cyclic)).toBe(cyclic);
+      expect(Object.isFrozen(cyclic)).toBe(true);
+      expect(Object.isFrozen(cyclic.bytes)).toBe(false);
+      expect(deepFreeze('text')).toBe('text');
+    });
+  });
+
+  describe('snapshotKey', () => {
+    test('should copy keys deeply', () => {
+      const key = { user: { name: 'a' }, when: new Date(5) };
+      const copy = snapshotKey(key);
+
+      key.user.name = 'b';
+
+      expect(copy).not.toBe(key);
+      expect(copy.user.name).toBe('a');
+      expect(copy.when.getTime()).toBe(5);
+    });
+
+    test('should keep the class of the key', () => {
+      class Point {
+        constructor(public x: number) {}
+        norm() { return Math.abs(this.x); }
+      }
+
+      const copy = snapshotKey(new Point(-2));
+
+      expect(copy).toBeInstanceOf(Point);
+      expect(copy.norm()).toBe(2);
+    });
+
+    test('should keep keys that cannot be cloned', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const key = { handler: () => 1 };
+
+      expect(snapshotKey(key)).toBe(key);
+      expect(snapshotKey(7)).toBe(7);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+});
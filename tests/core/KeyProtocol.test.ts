@@ -0,0 +1,84 @@
+import { KeyIdentityRegistry, TurboMap, hasKeyProtocol } from '../../src/turboMap/core/KeyProtocol';
+import { AdaptiveSerializer } from '../../src/turboMap/core/Serializer';
+
+class Money {
+  private formatted: string | null = null;
+
+  constructor(readonly amount: number, readonly currency: string) {}
+
+  format(): string {
+    this.formatted ??= `${this.amount} ${this.currency}`;
+    return this.formatted;
+  }
+
+  [TurboMap.hash]() {
+    return [this.amount, this.currency];
+  }
+}
+
+class GeoPoint {
+  private cachedDistance?: number;
+
+  constructor(readonly lat: number, readonly lng: number) {}
+
+  distance(): number {
+    this.cachedDistance ??= Math.hypot(this.lat, this.lng);
+    return this.cachedDistance;
+  }
+
+  [TurboMap.equals](other: unknown) {
+    return other instanceof GeoPoint &&
+      Math.abs(other.lat - this.lat) < 1e-9 &&
+      Math.abs(other.lng - this.lng) < 1e-9;
+  }
+}
+
+describe('KeyProtocol', () => {
+  test('should detect protocol keys', () => {
+    expect(hasKeyProtocol(new Money(1, 'EUR'))).toBe(true);
+    expect(hasKeyProtocol(new GeoPoint(0, 0))).toBe(true);
+    expect(hasKeyProtocol({ amount: 1 })).toBe(false);
+    expect(hasKeyProtocol(null)).toBe(false);
+  });
+
+  test('should identify hashable keys by class and hash', () => {
+    const registry = new KeyIdentityRegistry();
+    const identify = (key: object) => registry.identify(key, hash => JSON.stringify(hash));
+
+    const money = new Money(5, 'USD');
+    money.format();
+
+    expect(identify(money)).toBe(identify(new Money(5, 'USD')));
+    expect(identify(money)).not.toBe(identify(new Money(5, 'EUR')));
+  });
+
+  test('should give equal instances the identity of a registered one', () => {
+    const registry = new KeyIdentityRegistry();
+    const identify = (key: object, register = false) => registry.identify(key, hash => JSON.stringify(hash), register);
+
+    const point = new GeoPoint(1, 2);
+    point.distance();
+
+    expect(identify(point, true)).toBe(identify(new GeoPoint(1, 2)));
+    expect(identify(point)).not.toBe(identify(new GeoPoint(2, 1)));
+  });
+
+  test('should not register instances that are only looked up', () => {
+    const registry = new KeyIdentityRegistry();
+    const identify = (key: object, register = false) => registry.identify(key, hash => JSON.stringify(hash), register);
+
+    const probe = identify(new GeoPoint(3, 4));
+    expect(identify(new GeoPoint(3, 4))).not.toBe(probe);
+
+    const stored = identify(new GeoPoint(3, 4), true);
+    expect(stored).not.toBe(probe);
+    expect(identify(new GeoPoint(3, 4))).toBe(stored);
+  });
+
+  test('should run ahead of the built-in serializer strategies', () => {
+    const serializer = new AdaptiveSerializer();
+
+    expect(serializer.getStrategyName(new Money(1, 'EUR'))).toBe('keyProtocol');
+    expect(serializer.serialize(new Money(1, 'EUR'))).toBe(serializer.serialize(new Money(1, 'EUR')));
+  });
+});
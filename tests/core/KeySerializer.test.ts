@@ -0,0 +1,19 @@
+import { createKeySerializer, serializeKey } from '../../src/turboMap/core/KeySerializer';
+import { createEnhancedTurboMap } from '../../src/turboMap';
+
+describe('KeySerializer', () => {
+  test('should serialize keys like the enhanced map', () => {
+    const map = createEnhancedTurboMap<unknown, number>();
+    const key = { b: [1, 2], a: 'x' };
+
+    expect(serializeKey(key)).toBe(map.getSerializedKey(key));
+    expect(serializeKey({ a: 1 }, false)).toBe('{"a":1}');
+  });
+
+  test('should apply a keyBy projection', () => {
+    const serialize = createKeySerializer<{ id: number; at: number }>({ keyBy: key => key.id });
+
+    expect(serialize({ id: 1, at: 1 })).toBe(serialize({ id: 1, at: 2 }));
+    expect(serialize({ id: 1, at: 1 })).not.toBe(serialize({ id: 2, at: 1 }));
+  });
+});
@@ -0,0 +1,81 @@
+import { valuesEqual, encodePatch, decodePatch, isTurboMapPatch } from '../../src/turboMap/core/MapDiff';
+
+describe('MapDiff', () => {
+  describe('valuesEqual', () => {
+    test('should compare primitives like Map keys', () => {
+      expect(valuesEqual(1, 1)).toBe(true);
+      expect(valuesEqual(NaN, NaN)).toBe(true);
+      expect(valuesEqual(0, -0)).toBe(true);
+      expect(valuesEqual(1, '1')).toBe(false);
+      expect(valuesEqual(null, undefined)).toBe(false);
+    });
+
+    test('should compare objects structurally', () => {
+      expect(valuesEqual({ a: 1, b: [2] }, { b: [2], a: 1 })).toBe(true);
+      expect(valuesEqual(new Map([['x', 1]]), new Map([['x', 1]]))).toBe(true);
+      expect(valuesEqual(new Map([['x', 1]]), new Map([['x', 2]]))).toBe(false);
+      expect(valuesEqual([1], { 0: 1 })).toBe(false);
+      expect(valuesEqual({ a: 1 }, null)).toBe(false);
+      expect(valuesEqual(new Set([{ id: 1 }]), new Set([{ id: 1 }]))).toBe(true);
+      expect(valuesEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false);
+    });
+
+    test('should compare objects without inspectable contents by identity', () => {
+      const weak = new WeakMap();
+      const f = () => 1;
+
+      expect(valuesEqual(Promise.resolve(1), Promise.resolve(2))).toBe(false);
+      expect(valuesEqual(new WeakMap(), new WeakMap())).toBe(false);
+      expect(valuesEqual(weak, weak)).toBe(true);
+      expect(valuesEqual({ f: () => 1 }, { f: () => 2 })).toBe(false);
+      expect(valuesEqual({ f }, { f })).toBe(true);
+    });
+
+    test('should tell class instances from plain objects', () => {
+      class A {
+        x = 1;
+      }
+      class B {
+        x = 1;
+      }
+
+      expect(valuesEqual(new A(), { x: 1 })).toBe(false);
+      expect(valuesEqual(new A(), new B())).toBe(false);
+      expect(valuesEqual(new A(), new A())).toBe(true);
+    });
+
+    test('should compare cyclic structures', () => {
+      const a: Record<string, unknown> = { id: 1 };
+      a.self = a;
+      const b: Record<string, unknown> = { id: 1 };
+      b.self = b;
+
+      expect(valuesEqual(a, b)).toBe(true);
+      b.id = 2;
+      expect(valuesEqual(a, b)).toBe(false);
+    });
+  });
+
+  describe('Patch Format', () => {
+    test('should round-trip typed keys and values', () => {
+      const diff = {
+        added: [[{ id: 1n }, new Date(5)]] as [unknown, unknown][],
+        removed: [['gone', undefined]] as [unknown, unknown][],
+        changed: [['n', new Set([1]), new Set([2])]] as [unknown, unknown, unknown][]
+      };
+
+      const patch = encodePatch(diff);
+
+      expect(isTurboMapPatch(patch)).toBe(true);
+      expect(decodePatch(JSON.parse(JSON.stringify(patch)))).toEqual(diff);
+    });
+
+    test('should reject data that is not a supported patch', () => {
+      const patch = encodePatch({ added: [], removed: [], changed: [] });
+
+      expect(() => decodePatch({ format: 'turbo-map' })).toThrow('Not a serialized patch');
+      expect(() => decodePatch({ ...patch, version: 2 })).toThrow('Unsupported patch version 2');
+      expect(() => decodePatch({ ...patch, added: [['only key']] })).toThrow('Malformed patch entry');
+    });
+  });
+});
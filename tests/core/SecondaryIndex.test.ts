@@ -0,0 +1,54 @@
+import { SecondaryIndex } from '../../src/turboMap/core/SecondaryIndex';
+
+describe('SecondaryIndex', () => {
+  let index: SecondaryIndex<string, { status: string }>;
+
+  beforeEach(() => {
+    index = new SecondaryIndex('byStatus', value => value.status, value => JSON.stringify(value));
+  });
+
+  test('should bucket entries by extracted value', () => {
+    index.add('k1', 'a', { status: 'active' });
+    index.add('k2', 'b', { status: 'active' });
+    index.add('k3', 'c', { status: 'idle' });
+
+    expect(Array.from(index.get('active'))).toEqual(['k1', 'k2']);
+    expect(Array.from(index.get('idle'))).toEqual(['k3']);
+    expect(index.get('missing').size).toBe(0);
+  });
+
+  test('should move entries whose value changed', () => {
+    index.add('k1', 'a', { status: 'active' });
+    index.add('k1', 'a', { status: 'idle' });
+
+    expect(index.get('active').size).toBe(0);
+    expect(Array.from(index.get('idle'))).toEqual(['k1']);
+    expect(index.getStats()).toEqual({ name: 'byStatus', values: 1, entries: 1 });
+  });
+
+  test('should remove and clear entries', () => {
+    index.add('k1', 'a', { status: 'active' });
+    index.add('k2', 'b', { status: 'idle' });
+
+    index.remove('k1');
+    expect(index.getStats()).toEqual({ name: 'byStatus', values: 1, entries: 1 });
+
+    index.clear();
+    expect(index.getStats()).toEqual({ name: 'byStatus', values: 0, entries: 0 });
+  });
+
+  test('should leave out entries the extractor rejects', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const strict = new SecondaryIndex<string, { status?: string }>('strict', value => {
+      if (!value.status) throw new Error('no status');
+      return value.status;
+    }, value => String(value));
+
+    strict.add('k1', 'a', { status: 'active' });
+    strict.add('k1', 'a', {});
+
+    expect(strict.get('active').size).toBe(0);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
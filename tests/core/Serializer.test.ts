@@ -1,4 +1,5 @@
 import { AdaptiveSerializer } from '../../src/turboMap/core/Serializer';
+import { KeyCollisionError } from '../../src/turboMap/core/KeyInjectivity';
 
 describe('Serializer', () => {
   let serializer: AdaptiveSerializer;
@@ -65,6 +66,19 @@ describe('Serializer', () => {
       expect(result).toBe('Symbol()');
     });
 
+    test('should serialize Map and Set contents', () => {
+      expect(serializer.serialize(new Map([['b', 2], ['a', 1]]))).toBe(serializer.serialize(new Map([['a', 1], ['b', 2]])));
+      expect(serializer.serialize(new Set([2, 1]))).toBe('[Set:[1,2]]');
+      expect(serializer.serialize(new Map())).not.toBe(serializer.serialize({}));
+    });
+
+    test('should serialize binary values and URLs', () => {
+      expect(serializer.serialize(new Uint16Array([1, 2]))).toBe('[Uint16Array:1,2]');
+      expect(serializer.serialize(new Uint8Array([255, 1]).buffer)).toBe('[ArrayBuffer:ff01]');
+      expect(serializer.serialize(new DataView(new Uint8Array([0, 10]).buffer, 1))).toBe('[DataView:0a]');
+      expect(serializer.serialize(new URL('https://example.com/path'))).toBe('[URL:https://example.com/path]');
+    });
+
     test('should handle dates', () => {
       const date = new Date('2023-01-01');
       const result = serializer.serialize(date);
@@ -104,6 +118,23 @@ describe('Serializer', () => {
       const result = serializer.serialize('custom:test');
       expect(result).toBe('[Custom:custom:test]');
     });
+
+    test('should report the strategy chosen for a value', () => {
+      expect(serializer.getStrategyName('text')).toBe('primitive');
+      expect(serializer.getStrategyName({ a: 1 })).toBe('simpleObject');
+      expect(serializer.getStrategyName(new Date())).toBe('date');
+      expect(serializer.getStrategyName(new Map())).toBe('map');
+    });
+
+    test('should serialize object fields the way the whole object serializes them', () => {
+      const fields = serializer.serializeFields({ b: 'x', a: { n: 1 } });
+
+      expect(Array.from(fields!.keys())).toEqual(['a', 'b']);
+      expect(serializer.serialize({ b: 'x', a: { n: 1 } })).toBe(`{"a":${fields!.get('a')},"b":${fields!.get('b')}}`);
+      expect(serializer.serializeFields([1, 2])).toBeNull();
+      expect(serializer.serializeFields(new Date())).toBeNull();
+      expect(serializer.serializeFields('text')).toBeNull();
+    });
   });
 
   describe('Performance Optimization', () => {
@@ -249,6 +280,121 @@ describe('Serializer', () => {
     });
   });
 
+  describe('Key Injectivity', () => {
+    test('should escape quotes and separators in strings and property names', () => {
+      expect(serializer.serialize('a"b')).toBe('"a\\"b"');
+      expect(serializer.serialize({ 'a":1,"b': 2 })).not.toBe(serializer.serialize({ a: 1, b: 2 }));
+      expect(serializer.serialize(['a","b'])).not.toBe(serializer.serialize(['a', 'b']));
+      expect(serializer.serialize({ k: 'x"}' })).toBe('{"k":"x\\"}"}');
+    });
+
+    test('should keep primitive types apart inside arrays', () => {
+      expect(serializer.serialize([1n])).not.toBe(serializer.serialize([1]));
+      expect(serializer.serialize(['1'])).not.toBe(serializer.serialize([1]));
+    });
+
+    test('should escape free text in tagged values', () => {
+      expect(serializer.serialize(/test/gi)).toBe('[RegExp:/test/gi]');
+      expect(serializer.serialize(/a]b/)).toBe('[RegExp:/a\\]b/]');
+
+      const colonName = new Error('c');
+      colonName.name = 'a:b';
+      const colonMessage = new Error('b:c');
+      colonMessage.name = 'a';
+      expect(serializer.serialize(colonName)).not.toBe(serializer.serialize(colonMessage));
+      expect(serializer.serialize([new Error('x],[Error:Error:y')])).not.toBe(
+        serializer.serialize([new Error('x'), new Error('y')])
+      );
+    });
+
+    test('should quote registered symbol keys', () => {
+      expect(serializer.serialize(Symbol.for('plain'))).toBe('Symbol.for("plain")');
+      expect(serializer.serialize(Symbol.for('a")'))).toBe('Symbol.for("a\\")")');
+    });
+
+    test('should serialize local symbols by the identity mode', () => {
+      const sym = Symbol('tag');
+
+      expect(serializer.serialize(sym)).toBe('Symbol()');
+      expect(serializer.serialize(sym, { symbolIdentity: 'description' })).toBe('Symbol("tag")');
+      expect(serializer.serialize(Symbol(), { symbolIdentity: 'description' })).toBe('Symbol()');
+      expect(serializer.serialize(Symbol(''), { symbolIdentity: 'description' })).toBe('Symbol("")');
+      expect(serializer.serialize(sym, { symbolIdentity: 'identity' })).toMatch(/^Symbol#\d+$/);
+      expect(serializer.serialize(Symbol.for('tag'), { symbolIdentity: 'identity' })).toBe('Symbol.for("tag")');
+    });
+
+    test('should cache object results per symbol mode', () => {
+      const key = { tag: Symbol('a') };
+
+      expect(serializer.serialize(key)).toBe('{"tag":Symbol()}');
+      expect(serializer.serialize(key, { symbolIdentity: 'description' })).toBe('{"tag":Symbol("a")}');
+      expect(serializer.serialize(key)).toBe('{"tag":Symbol()}');
+    });
+
+    test('should check symbol modes in strict mode', () => {
+      serializer.setStrictMode(true);
+
+      expect(() => {
+        serializer.serialize([Symbol('a'), Symbol('b')], { symbolIdentity: 'identity' });
+        serializer.serialize({ s: Symbol('a') }, { symbolIdentity: 'description' });
+        serializer.serialize({ s: Symbol('b') }, { symbolIdentity: 'description' });
+      }).not.toThrow();
+    });
+
+    test('should report collisions in strict mode', () => {
+      serializer.setStrictMode(true);
+      expect(serializer.isStrictMode()).toBe(true);
+
+      const values: unknown[] = [
+        'a"b', { 'a":1,"b': 2 }, { a: 1, b: 2 }, ['a', 'b'], ['a","b'], [1], ['1'], [1n],
+        /a]b/, new Error('x'), new Map([['a', 1]]), new Set(['a']), { nested: { deep: ['x'] } }
+      ];
+      for (const value of values) {
+        expect(() => serializer.serialize(value)).not.toThrow();
+      }
+    });
+
+    test('should allow intended equivalences in strict mode', () => {
+      serializer.setStrictMode(true);
+
+      expect(() => {
+        serializer.serialize({ a: 1, b: 2 });
+        serializer.serialize({ b: 2, a: 1 });
+        serializer.serialize(Symbol('one'));
+        serializer.serialize(Symbol('two'));
+        serializer.serialize(new Set([1, 2]));
+        serializer.serialize(new Set([2, 1]));
+      }).not.toThrow();
+    });
+
+    test('should throw a KeyCollisionError for a colliding custom strategy', () => {
+      serializer.addStrategy({
+        name: 'lossy',
+        priority: 200,
+        canHandle: (obj) => typeof obj === 'object' && obj !== null && 'lossy' in obj,
+        serialize: () => '[Lossy]'
+      });
+      serializer.setStrictMode(true);
+
+      // Custom strategies define their own equality, so their output is trusted
+      expect(() => {
+        serializer.serialize({ lossy: 1 });
+        serializer.serialize({ lossy: 2 });
+      }).not.toThrow();
+
+      const tooLong = 'x'.repeat(5);
+      serializer.addStrategy({
+        name: 'truncate',
+        priority: 200,
+        canHandle: (obj) => obj === tooLong,
+        serialize: () => '"xxx"'
+      });
+      // Their output must still differ from every built-in key
+      serializer.serialize('xxx');
+      expect(() => serializer.serialize(tooLong)).toThrow(KeyCollisionError);
+    });
+  });
+
   describe('Edge Cases', () => {
     test('should handle very large strings', () => {
       const largeString = 'x'.repeat(10000);
@@ -0,0 +1,74 @@
+import { createTurboBiMap } from '../../src/turboMap/core/TurboBiMap';
+
+interface Descriptor {
+  kind: string;
+  name: string;
+}
+
+describe('TurboBiMap', () => {
+  const populate = (options = {}) => createTurboBiMap<number, Descriptor>([
+    [1, { kind: 'user', name: 'ada' }],
+    [2, { kind: 'user', name: 'bob' }]
+  ], options);
+
+  test('should look up in both directions structurally', () => {
+    const map = populate();
+
+    expect(map.get(1)).toEqual({ kind: 'user', name: 'ada' });
+    expect(map.inverse().get({ name: 'bob', kind: 'user' })).toBe(2);
+    expect(map.hasValue({ kind: 'user', name: 'ada' })).toBe(true);
+    expect(map.inverse().has({ kind: 'user', name: 'eve' })).toBe(false);
+  });
+
+  test('should share state with the inverse view', () => {
+    const map = populate();
+    const inverse = map.inverse();
+
+    inverse.set({ kind: 'group', name: 'ops' }, 3);
+    expect(map.get(3)).toEqual({ kind: 'group', name: 'ops' });
+
+    map.delete(1);
+    expect(inverse.get({ kind: 'user', name: 'ada' })).toBeUndefined();
+    expect(inverse.size).toBe(2);
+    expect(inverse.inverse()).toBe(map);
+    expect(map.inverse()).toBe(inverse);
+  });
+
+  test('should rebind a key and release its old value', () => {
+    const map = populate();
+
+    map.set(1, { kind: 'user', name: 'ann' });
+
+    expect(map.size).toBe(2);
+    expect(map.inverse().get({ kind: 'user', name: 'ada' })).toBeUndefined();
+    expect(map.inverse().get({ kind: 'user', name: 'ann' })).toBe(1);
+  });
+
+  test('should throw on a value bound to another key by default', () => {
+    const map = populate();
+
+    expect(() => map.set(3, { kind: 'user', name: 'ada' })).toThrow('already bound');
+    expect(map.has(3)).toBe(false);
+    expect(map.set(1, { kind: 'user', name: 'ada' }).size).toBe(2);
+  });
+
+  test('should move the value under the overwrite policy', () => {
+    const map = populate({ onConflict: 'overwrite' });
+
+    map.set(3, { kind: 'user', name: 'ada' });
+
+    expect(map.has(1)).toBe(false);
+    expect(map.inverse().get({ kind: 'user', name: 'ada' })).toBe(3);
+    expect(Array.from(map.keys())).toEqual([2, 3]);
+  });
+
+  test('should iterate and clear both directions', () => {
+    const map = populate();
+
+    expect(Array.from(map)).toEqual([[1, { kind: 'user', name: 'ada' }], [2, { kind: 'user', name: 'bob' }]]);
+    expect(Array.from(map.inverse().values())).toEqual([1, 2]);
+
+    map.clear();
+    expect(map.inverse().size).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { createTurboMultiMap } from '../../src/turboMap/core/TurboMultiMap';
+
+interface Route {
+  service: string;
+  region: string;
+}
+
+describe('TurboMultiMap', () => {
+  const populate = () => createTurboMultiMap<Route, string>([
+    [{ service: 'api', region: 'eu' }, 'e1'],
+    [{ service: 'api', region: 'us' }, 'e2'],
+    [{ region: 'eu', service: 'api' }, 'e3']
+  ]);
+
+  test('should group values under structurally equal keys', () => {
+    const map = populate();
+
+    expect(map.get({ service: 'api', region: 'eu' })).toEqual(['e1', 'e3']);
+    expect(map.count({ service: 'api', region: 'eu' })).toBe(2);
+    expect(map.get({ service: 'web', region: 'eu' })).toEqual([]);
+    expect(map.count({ service: 'web', region: 'eu' })).toBe(0);
+    expect(map.size).toBe(2);
+    expect(map.totalCount).toBe(3);
+  });
+
+  test('should not expose internal value arrays', () => {
+    const map = populate();
+
+    map.get({ service: 'api', region: 'eu' }).push('leak');
+
+    expect(map.count({ service: 'api', region: 'eu' })).toBe(2);
+  });
+
+  test('should delete single values and whole keys', () => {
+    const map = populate();
+
+    expect(map.deleteValue({ service: 'api', region: 'eu' }, 'e1')).toBe(true);
+    expect(map.deleteValue({ service: 'api', region: 'eu' }, 'missing')).toBe(false);
+    expect(map.get({ service: 'api', region: 'eu' })).toEqual(['e3']);
+
+    expect(map.deleteValue({ service: 'api', region: 'us' }, 'e2')).toBe(true);
+    expect(map.has({ service: 'api', region: 'us' })).toBe(false);
+
+    expect(map.delete({ service: 'api', region: 'eu' })).toBe(true);
+    expect(map.size).toBe(0);
+    expect(map.totalCount).toBe(0);
+  });
+
+  test('should compare values structurally', () => {
+    const map = createTurboMultiMap<string, { id: number }>();
+    map.add('k', { id: 1 }).add('k', { id: 2 }).add('k', { id: 1 });
+
+    expect(map.hasValue('k', { id: 2 })).toBe(true);
+    expect(map.deleteValue('k', { id: 1 })).toBe(true);
+    expect(map.get('k')).toEqual([{ id: 2 }, { id: 1 }]);
+  });
+
+  test('should iterate keys, values and entries', () => {
+    const map = populate();
+    map.addAll({ service: 'web', region: 'us' }, ['w1', 'w2']);
+
+    expect(Array.from(map.keys())).toHaveLength(3);
+    expect(Array.from(map.values())).toEqual(['e1', 'e3', 'e2', 'w1', 'w2']);
+    expect(Array.from(map)).toEqual([
+      [{ service: 'api', region: 'eu' }, ['e1', 'e3']],
+      [{ service: 'api', region: 'us' }, ['e2']],
+      [{ service: 'web', region: 'us' }, ['w1', 'w2']]
+    ]);
+
+    map.clear();
+    expect(map.totalCount).toBe(0);
+  });
+});
@@ -0,0 +1,212 @@
+import { createReplicatedTurboMap, compareStamps, type TurboReplicatedMap } from '../../src/turboMap/core/TurboReplicatedMap';
+
+describe('TurboReplicatedMap', () => {
+  let now: jest.SpyInstance<number, []>;
+
+  const sync = (...replicas: TurboReplicatedMap<any, any>[]) => {
+    for (const target of replicas) {
+      for (const source of replicas) {
+        if (source !== target) target.merge(source.getState());
+      }
+    }
+  };
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  describe('Local Operations', () => {
+    test('should behave like a map with structural keys', () => {
+      const map = createReplicatedTurboMap<{ id: number; tags: string[] }, string>('a', [[{ id: 1, tags: ['x'] }, 'one']]);
+
+      expect(map.get({ tags: ['x'], id: 1 })).toBe('one');
+      expect(map.size).toBe(1);
+
+      map.set({ id: 2, tags: [] }, 'two');
+      expect(map.delete({ id: 1, tags: ['x'] })).toBe(true);
+      expect(map.delete({ id: 1, tags: ['x'] })).toBe(false);
+      expect(Array.from(map)).toEqual([[{ id: 2, tags: [] }, 'two']]);
+
+      map.clear();
+      expect(map.size).toBe(0);
+      expect(map.has({ id: 2, tags: [] })).toBe(false);
+    });
+
+    test('should require a replica id', () => {
+      expect(() => createReplicatedTurboMap('')).toThrow('replicaId');
+    });
+  });
+
+  describe('Merging', () => {
+    test('should converge on the latest write', () => {
+      const a = createReplicatedTurboMap<string, number>('a');
+      const b = createReplicatedTurboMap<string, number>('b');
+
+      a.set('x', 1);
+      now.mockReturnValue(2000);
+      b.set('x', 2);
+      sync(a, b);
+
+      expect(a.get('x')).toBe(2);
+      expect(b.get('x')).toBe(2);
+    });
+
+    test('should keep a concurrent delete that came later', () => {
+      const a = createReplicatedTurboMap<string, number>('a', [['x', 1]]);
+      const b = createReplicatedTurboMap<string, number>('b');
+      sync(a, b);
+
+      // Both edit offline: a deletes, b updates earlier
+      now.mockReturnValue(1500);
+      b.set('x', 2);
+      now.mockReturnValue(2000);
+      a.delete('x');
+      sync(a, b);
+
+      expect(a.has('x')).toBe(false);
+      expect(b.has('x')).toBe(false);
+      expect(b.size).toBe(0);
+    });
+
+    test('should let a write made after seeing another win despite an earlier clock', () => {
+      const a = createReplicatedTurboMap<string, number>('a');
+      const b = createReplicatedTurboMap<string, number>('b');
+
+      now.mockReturnValue(5000);
+      a.set('x', 1);
+      b.merge(a.getState());
+      // b's wall clock lags behind a's
+      now.mockReturnValue(1000);
+      b.set('x', 2);
+      a.merge(b.getState());
+
+      expect(a.get('x')).toBe(2);
+    });
+
+    test('should break ties deterministically by replica id', () => {
+      const a = createReplicatedTurboMap<string, string>('a');
+      const b = createReplicatedTurboMap<string, string>('b');
+
+      a.set('x', 'a');
+      b.set('x', 'b');
+      sync(a, b);
+
+      expect(a.get('x')).toBe('b');
+      expect(b.get('x')).toBe('b');
+    });
+
+    test('should be idempotent and independent of merge order', () => {
+      const a = createReplicatedTurboMap<string, number>('a', [['x', 1], ['y', 1]]);
+      now.mockReturnValue(2000);
+      const b = createReplicatedTurboMap<string, number>('b', [['y', 2]]);
+      now.mockReturnValue(3000);
+      const c = createReplicatedTurboMap<string, number>('c', [['z', 3]]);
+      c.delete('z');
+
+      const left = createReplicatedTurboMap<string, number>('left');
+      left.merge(a.getState());
+      left.merge(b.getState());
+      left.merge(c.getState());
+      const right = createReplicatedTurboMap<string, number>('right');
+      right.merge(c.getState());
+      right.merge(b.getState());
+      right.merge(a.getState());
+      right.merge(a.getState());
+
+      expect(Array.from(left).sort()).toEqual([['x', 1], ['y', 2]]);
+      expect(Array.from(right).sort()).toEqual(Array.from(left).sort());
+      expect(right.merge(left.getState())).toBe(0);
+    });
+
+    test('should reject malformed states without changing anything', () => {
+      const map = createReplicatedTurboMap<string, number>('a', [['x', 1]]);
+      const state = map.getState();
+
+      expect(() => map.merge({ ...state, format: 'other' } as never)).toThrow('Not a replicated map state');
+      expect(() => map.merge({
+        ...state,
+        entries: [{ k: 'y', v: 2, stamp: { time: 9999, counter: 0, replica: 'b' } }, { k: 'z' } as never]
+      })).toThrow('Malformed entry');
+      expect(map.has('y')).toBe(false);
+    });
+
+    test('should apply nothing when a later entry fails to decode', () => {
+      const map = createReplicatedTurboMap<string, number>('a', [['x', 1]]);
+      const stamp = { time: 9999, counter: 0, replica: 'b' };
+
+      expect(() => map.merge({
+        ...map.getState(),
+        entries: [{ k: 'y', v: 2, stamp }, { k: 'z', v: { $t: 'unknown' } as never, stamp }]
+      })).toThrow('Unknown type tag unknown');
+      expect(map.has('y')).toBe(false);
+      expect(map.getDelta(1).entries).toEqual([]);
+    });
+  });
+
+  describe('Deltas', () => {
+    test('should return only entries changed since a sequence number', () => {
+      const server = createReplicatedTurboMap<string, number>('server', [['a', 1], ['b', 2]]);
+      const client = createReplicatedTurboMap<string, number>('client');
+
+      const first = server.getDelta(0);
+      client.merge(first);
+      expect(first.entries).toHaveLength(2);
+
+      now.mockReturnValue(2000);
+      server.set('b', 3);
+      server.delete('a');
+      const second = server.getDelta(first.seq);
+
+      expect(second.entries.map(entry => [entry.k, entry.v])).toEqual([['a', undefined], ['b', 3]]);
+      client.merge(second);
+      expect(Array.from(client)).toEqual([['b', 3]]);
+      expect(server.getDelta(second.seq).entries).toEqual([]);
+    });
+
+    test('should pass merged changes on to third replicas', () => {
+      const a = createReplicatedTurboMap<string, number>('a');
+      const hub = createReplicatedTurboMap<string, number>('hub');
+      const c = createReplicatedTurboMap<string, number>('c');
+      c.merge(hub.getDelta(0));
+      const seen = hub.getDelta(0).seq;
+
+      a.set('x', 1);
+      hub.merge(a.getState());
+      c.merge(hub.getDelta(seen));
+
+      expect(c.get('x')).toBe(1);
+    });
+
+    test('should survive a JSON round trip', () => {
+      const a = createReplicatedTurboMap<unknown, unknown>('a', [[{ id: 1n }, new Set([new Date(0)])]]);
+      const b = createReplicatedTurboMap<unknown, unknown>('b');
+
+      b.merge(JSON.parse(JSON.stringify(a.getState())));
+
+      expect(b.get({ id: 1n })).toEqual(new Set([new Date(0)]));
+    });
+  });
+
+  describe('Tombstones', () => {
+    test('should prune tombstones older than a time', () => {
+      const map = createReplicatedTurboMap<string, number>('a', [['x', 1], ['y', 2]]);
+      map.delete('x');
+      now.mockReturnValue(5000);
+      map.delete('y');
+
+      expect(map.pruneTombstones(2000)).toBe(1);
+      expect(map.getState().entries.map(entry => entry.k)).toEqual(['y']);
+    });
+  });
+
+  test('should order stamps by time, counter and replica', () => {
+    expect(compareStamps({ time: 1, counter: 5, replica: 'z' }, { time: 2, counter: 0, replica: 'a' })).toBe(-1);
+    expect(compareStamps({ time: 1, counter: 1, replica: 'a' }, { time: 1, counter: 0, replica: 'z' })).toBe(1);
+    expect(compareStamps({ time: 1, counter: 0, replica: 'b' }, { time: 1, counter: 0, replica: 'a' })).toBe(1);
+    expect(compareStamps({ time: 1, counter: 0, replica: 'a' }, { time: 1, counter: 0, replica: 'a' })).toBe(0);
+  });
+});
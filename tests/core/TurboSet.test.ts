@@ -0,0 +1,79 @@
+import { createTurboSet, TurboSet } from '../../src/turboMap/core/TurboSet';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+describe('TurboSet', () => {
+  const points = (...coords: [number, number][]) => coords.map(([x, y]) => ({ x, y }));
+
+  describe('Set API', () => {
+    test('should dedupe structurally equal values', () => {
+      const set = createTurboSet<Point>(points([1, 2], [1, 2], [3, 4]));
+
+      expect(set.size).toBe(2);
+      expect(set.has({ x: 1, y: 2 })).toBe(true);
+      expect(set.has({ y: 2, x: 1 })).toBe(true);
+      expect(set.has({ x: 2, y: 1 })).toBe(false);
+    });
+
+    test('should keep the first inserted instance', () => {
+      const first = { x: 1, y: 1 };
+      const set = createTurboSet<Point>([first]);
+
+      set.add({ x: 1, y: 1 });
+
+      expect(Array.from(set)[0]).toBe(first);
+    });
+
+    test('should support delete, clear and iteration', () => {
+      const set = createTurboSet<Point>(points([1, 1], [2, 2]));
+      const visited: Point[] = [];
+      set.forEach((value, value2) => {
+        expect(value2).toBe(value);
+        visited.push(value);
+      });
+
+      expect(visited).toEqual(points([1, 1], [2, 2]));
+      expect(Array.from(set.entries())).toEqual([[{ x: 1, y: 1 }, { x: 1, y: 1 }], [{ x: 2, y: 2 }, { x: 2, y: 2 }]]);
+      expect(Array.from(set.keys())).toEqual(Array.from(set.values()));
+      expect(set.delete({ x: 1, y: 1 })).toBe(true);
+      expect(set.delete({ x: 1, y: 1 })).toBe(false);
+
+      set.clear();
+      expect(set.size).toBe(0);
+      expect(Object.prototype.toString.call(set)).toBe('[object TurboSet]');
+    });
+
+    test('should honour keyBy', () => {
+      const set = createTurboSet<{ id: number; seenAt: number }>(null, { keyBy: value => value.id });
+
+      set.add({ id: 1, seenAt: 1 }).add({ id: 1, seenAt: 2 });
+
+      expect(set.size).toBe(1);
+    });
+  });
+
+  describe('Set algebra', () => {
+    const a = () => createTurboSet<Point>(points([1, 1], [2, 2], [3, 3]));
+
+    test('should combine sets structurally', () => {
+      const other = points([2, 2], [3, 3], [4, 4]);
+
+      expect(Array.from(a().union(other))).toEqual(points([1, 1], [2, 2], [3, 3], [4, 4]));
+      expect(Array.from(a().intersection(other))).toEqual(points([2, 2], [3, 3]));
+      expect(Array.from(a().difference(other))).toEqual(points([1, 1]));
+      expect(Array.from(a().symmetricDifference(other))).toEqual(points([1, 1], [4, 4]));
+      expect(a().union(other)).toBeInstanceOf(TurboSet);
+    });
+
+    test('should compare sets structurally', () => {
+      expect(createTurboSet<Point>(points([1, 1])).isSubsetOf(a())).toBe(true);
+      expect(a().isSubsetOf(points([1, 1]))).toBe(false);
+      expect(a().isSupersetOf(points([3, 3], [1, 1]))).toBe(true);
+      expect(a().isDisjointFrom(points([5, 5]))).toBe(true);
+      expect(a().isDisjointFrom(points([2, 2]))).toBe(false);
+    });
+  });
+});
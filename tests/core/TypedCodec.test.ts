@@ -0,0 +1,123 @@
+import { TypedCodec } from '../../src/turboMap/core/TypedCodec';
+import { AdaptiveSerializer } from '../../src/turboMap/core/Serializer';
+
+describe('TypedCodec', () => {
+  let codec: TypedCodec;
+
+  const roundTrip = (value: unknown) => codec.decode(JSON.parse(JSON.stringify(codec.encode(value))));
+
+  beforeEach(() => {
+    codec = new TypedCodec(new AdaptiveSerializer(false, false));
+  });
+
+  describe('Primitives', () => {
+    test('should keep JSON primitives untagged', () => {
+      expect(codec.encode('text')).toBe('text');
+      expect(codec.encode(42)).toBe(42);
+      expect(codec.encode(true)).toBe(true);
+      expect(codec.encode(null)).toBeNull();
+    });
+
+    test('should round-trip non-JSON numbers and undefined', () => {
+      expect(roundTrip(NaN)).toBeNaN();
+      expect(roundTrip(Infinity)).toBe(Infinity);
+      expect(roundTrip(-Infinity)).toBe(-Infinity);
+      expect(Object.is(roundTrip(-0), -0)).toBe(true);
+      expect(roundTrip(undefined)).toBeUndefined();
+    });
+
+    test('should round-trip bigint and symbols', () => {
+      expect(roundTrip(12345678901234567890n)).toBe(12345678901234567890n);
+      expect(roundTrip(Symbol.for('shared'))).toBe(Symbol.for('shared'));
+
+      const local = roundTrip(Symbol('local')) as symbol;
+      expect(typeof local).toBe('symbol');
+      expect(local.description).toBe('local');
+    });
+  });
+
+  describe('Objects', () => {
+    test('should round-trip dates, regexps and errors', () => {
+      const date = roundTrip(new Date('2024-01-15T10:30:00.000Z')) as Date;
+      expect(date).toBeInstanceOf(Date);
+      expect(date.getTime()).toBe(Date.parse('2024-01-15T10:30:00.000Z'));
+      expect(Number.isNaN((roundTrip(new Date('invalid')) as Date).getTime())).toBe(true);
+
+      const regexp = roundTrip(/a+b/gi) as RegExp;
+      expect(regexp).toBeInstanceOf(RegExp);
+      expect(regexp.toString()).toBe('/a+b/gi');
+
+      const error = roundTrip(new TypeError('bad')) as Error;
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TypeError');
+      expect(error.message).toBe('bad');
+    });
+
+    test('should round-trip nested structures with Map and Set', () => {
+      const value = {
+        list: [1, 'two', { three: 3n }],
+        lookup: new Map<unknown, unknown>([[{ id: 1 }, new Set([1, 2])]]),
+        when: new Date(0)
+      };
+
+      const decoded = roundTrip(value) as typeof value;
+      expect(decoded.list).toEqual([1, 'two', { three: 3n }]);
+      const [[key, set]] = Array.from(decoded.lookup);
+      expect(key).toEqual({ id: 1 });
+      expect(set).toEqual(new Set([1, 2]));
+      expect(decoded.when).toEqual(new Date(0));
+    });
+
+    test('should keep a literal __proto__ key as data', () => {
+      const value = JSON.parse('{"__proto__": {"polluted": true}}');
+      const decoded = roundTrip(value) as Record<string, unknown>;
+
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(Object.keys(decoded)).toEqual(['__proto__']);
+    });
+
+    test('should restore functions as stubs with the same name and arity', () => {
+      const decoded = roundTrip(function handler(_a: number, _b: number) {}) as Function;
+      expect(decoded.name).toBe('handler');
+      expect(decoded.length).toBe(2);
+    });
+
+    test('should reject circular structures', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      expect(() => codec.encode(circular)).toThrow('Circular');
+    });
+
+    test('should round-trip binary values and URLs', () => {
+      const floats = roundTrip(new Float64Array([1.5, -2])) as Float64Array;
+      expect(floats).toBeInstanceOf(Float64Array);
+      expect(Array.from(floats)).toEqual([1.5, -2]);
+
+      const view = roundTrip(new DataView(new Uint8Array([0, 7, 8]).buffer, 1)) as DataView;
+      expect(view).toBeInstanceOf(DataView);
+      expect(view.byteLength).toBe(2);
+      expect(view.getUint8(0)).toBe(7);
+
+      expect(new Uint8Array(roundTrip(new Uint8Array([5]).buffer) as ArrayBuffer)).toEqual(new Uint8Array([5]));
+      expect((roundTrip(new URL('https://example.com/x')) as URL).href).toBe('https://example.com/x');
+    });
+  });
+
+  describe('Entries', () => {
+    test('should wrap entries in the export format', () => {
+      const encoded = codec.encodeEntries([[{ id: 1 }, 'a']]);
+      expect(encoded.format).toBe('turbo-map');
+      expect(encoded.version).toBe(1);
+      expect(codec.decodeEntries(encoded)).toEqual([[{ id: 1 }, 'a']]);
+    });
+
+    test('should accept legacy entry arrays', () => {
+      expect(codec.decodeEntries([['a', 1]])).toEqual([['a', 1]]);
+    });
+
+    test('should reject unknown formats and versions', () => {
+      expect(() => codec.decodeEntries({ format: 'other' })).toThrow('Not a serialized TurboMap');
+      expect(() => codec.decodeEntries({ format: 'turbo-map', version: 2, entries: [] })).toThrow('version');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { mkdtempSync, readFileSync, writeFileSync, existsSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { WriteAheadLog, encodeWalRecord, decodeWalRecord, type WalRecord } from '../../src/turboMap/core/WriteAheadLog';
+import { crc32 } from '../../src/turboMap/utils/BinaryData';
+
+describe('WriteAheadLog', () => {
+  let dir: string;
+  let path: string;
+
+  const set = (k: string, v: number): WalRecord => ({ op: 'set', k, v });
+  const writeLog = (...lines: string[]) => writeFileSync(path, lines.join(''));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'turbomap-wal-'));
+    path = join(dir, 'map.wal');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('Record Encoding', () => {
+    test('should compute standard CRC-32 checksums', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+      expect(crc32(new Uint8Array(0))).toBe(0);
+    });
+
+    test('should round-trip records with their checksum', () => {
+      const line = encodeWalRecord(set('a', 1));
+
+      expect(line).toMatch(/^[0-9a-f]{8} \{.*\}\n$/);
+      expect(decodeWalRecord(line.slice(0, -1))).toEqual(set('a', 1));
+      expect(decodeWalRecord(encodeWalRecord({ op: 'commit' }).slice(0, -1))).toEqual({ op: 'commit' });
+    });
+
+    test('should reject records whose checksum does not match', () => {
+      const line = encodeWalRecord(set('a', 1)).slice(0, -1);
+
+      expect(decodeWalRecord(line.replace('"a"', '"b"'))).toBeNull();
+      expect(decodeWalRecord('zzzzzzzz ' + line.slice(9))).toBeNull();
+      expect(decodeWalRecord(line.slice(0, 20))).toBeNull();
+    });
+  });
+
+  describe('Recovery', () => {
+    test('should start an empty log when none exists', async () => {
+      const wal = await WriteAheadLog.open(path);
+
+      expect(wal.takeRecoveredRecords()).toEqual([]);
+      expect(wal.recovery).toMatchObject({ records: 0, tornRecord: false, corruptRecords: 0 });
+      expect(existsSync(path)).toBe(true);
+      wal.close();
+    });
+
+    test('should drop and truncate a torn trailing record', async () => {
+      const torn = encodeWalRecord(set('b', 2)).slice(0, 12);
+      writeLog(encodeWalRecord(set('a', 1)), torn);
+
+      const wal = await WriteAheadLog.open(path);
+
+      expect(wal.takeRecoveredRecords()).toEqual([set('a', 1)]);
+      expect(wal.recovery).toMatchObject({ records: 1, tornRecord: true, corruptRecords: 0, truncatedBytes: 12 });
+      expect(readFileSync(path, 'utf8')).toBe(encodeWalRecord(set('a', 1)));
+
+      // Appends continue after the last good record
+      wal.append(set('c', 3));
+      wal.close();
+      expect(readFileSync(path, 'utf8')).toBe(encodeWalRecord(set('a', 1)) + encodeWalRecord(set('c', 3)));
+    });
+
+    test('should stop at a corrupt record and keep the tail aside', async () => {
+      const corrupt = encodeWalRecord(set('b', 2)).replace('"b"', '"x"');
+      writeLog(encodeWalRecord(set('a', 1)), corrupt, encodeWalRecord(set('c', 3)));
+
+      const wal = await WriteAheadLog.open(path);
+
+      expect(wal.takeRecoveredRecords()).toEqual([set('a', 1)]);
+      expect(wal.recovery).toMatchObject({ records: 1, tornRecord: false, corruptRecords: 1, discardedRecords: 1 });
+      expect(readFileSync(`${path}.corrupt`, 'utf8')).toBe(corrupt + encodeWalRecord(set('c', 3)));
+      wal.close();
+    });
+
+    test('should replay committed transactions only', async () => {
+      writeLog(
+        encodeWalRecord({ op: 'begin' }), encodeWalRecord(set('a', 1)), encodeWalRecord({ op: 'commit' }),
+        encodeWalRecord({ op: 'begin' }), encodeWalRecord(set('b', 2)), encodeWalRecord({ op: 'abort' }),
+        encodeWalRecord({ op: 'begin' }), encodeWalRecord(set('c', 3))
+      );
+
+      const wal = await WriteAheadLog.open(path);
+
+      expect(wal.takeRecoveredRecords()).toEqual([set('a', 1)]);
+      expect(wal.recovery).toMatchObject({ records: 1, incompleteTransaction: true, tornRecord: false });
+      expect(wal.takeRecoveredRecords()).toEqual([]);
+      wal.close();
+    });
+  });
+
+  describe('Writing', () => {
+    test('should checkpoint into a fresh log', async () => {
+      const wal = await WriteAheadLog.open(path);
+      wal.append(set('a', 1));
+      wal.append(set('a', 2));
+
+      wal.checkpoint([set('a', 2)]);
+      wal.append(set('b', 3));
+      wal.close();
+
+      expect(readFileSync(path, 'utf8')).toBe(encodeWalRecord(set('a', 2)) + encodeWalRecord(set('b', 3)));
+      expect(existsSync(`${path}.tmp`)).toBe(false);
+    });
+
+    test('should refuse appends once closed', async () => {
+      const wal = await WriteAheadLog.open(path);
+      wal.close();
+
+      expect(() => wal.append(set('a', 1))).toThrow('closed');
+      expect(wal.getStatus()).toMatchObject({ closed: true, failed: false, appended: 0 });
+    });
+  });
+});
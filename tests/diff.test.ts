@@ -0,0 +1,120 @@
+import { createEnhancedTurboMap, createSortedTurboMap, encodePatch, type TurboMapPatch } from '../src/index';
+
+interface ServiceKey {
+  service: string;
+  region: string;
+}
+
+describe('Diffs and Patches', () => {
+  const before = () => createEnhancedTurboMap<ServiceKey, unknown>([
+    [{ service: 'api', region: 'eu' }, { replicas: 3, tags: ['web'] }],
+    [{ service: 'api', region: 'us' }, { replicas: 2 }],
+    [{ service: 'db', region: 'eu' }, 'primary']
+  ]);
+  const after = () => createEnhancedTurboMap<ServiceKey, unknown>([
+    // Same key and value built fresh, with fields in another order
+    [{ region: 'eu', service: 'api' }, { tags: ['web'], replicas: 3 }],
+    [{ service: 'api', region: 'us' }, { replicas: 4 }],
+    [{ service: 'cache', region: 'eu' }, new Set(['lru'])]
+  ]);
+
+  test('should report added, removed and changed entries', () => {
+    const diff = before().diff(after());
+
+    expect(diff.added).toEqual([[{ service: 'cache', region: 'eu' }, new Set(['lru'])]]);
+    expect(diff.removed).toEqual([[{ service: 'db', region: 'eu' }, 'primary']]);
+    expect(diff.changed).toEqual([[{ service: 'api', region: 'us' }, { replicas: 2 }, { replicas: 4 }]]);
+  });
+
+  test('should find no changes between structurally equal maps', () => {
+    const map = before();
+
+    expect(map.diff(before())).toEqual({ added: [], removed: [], changed: [] });
+    expect(map.diff(map.getSnapshot())).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  test('should compare values by type as well as content', () => {
+    const map = createEnhancedTurboMap<string, unknown>([['a', 1], ['b', [1]], ['c', NaN], ['d', new Date(0)]]);
+
+    const diff = map.diff([['a', '1'], ['b', { 0: 1 }], ['c', NaN], ['d', new Date(0)]]);
+
+    expect(diff.changed.map(([key]) => key)).toEqual(['a', 'b']);
+  });
+
+  test('should see values mutated in place since the last comparison', () => {
+    const value = { count: 1 };
+    const map = createEnhancedTurboMap<string, { count: number }>([['a', value]]);
+    expect(map.diff([['a', { count: 1 }]]).changed).toEqual([]);
+
+    value.count = 2;
+
+    expect(map.diff([['a', { count: 1 }]]).changed).toHaveLength(1);
+  });
+
+  test('should turn a map into the other by applying the diff', () => {
+    const map = before();
+    const target = after();
+
+    map.applyPatch(map.diff(target));
+
+    expect(map.diff(target)).toEqual({ added: [], removed: [], changed: [] });
+    expect(map.size).toBe(3);
+  });
+
+  test('should replay a patch that went through JSON', () => {
+    const map = before();
+    const patch: TurboMapPatch = JSON.parse(JSON.stringify(encodePatch(before().diff(after()))));
+
+    map.applyPatch(patch);
+
+    expect(map.get({ service: 'cache', region: 'eu' })).toEqual(new Set(['lru']));
+    expect(map.get({ service: 'api', region: 'us' })).toEqual({ replicas: 4 });
+    expect(map.has({ service: 'db', region: 'eu' })).toBe(false);
+  });
+
+  test('should apply a patch as one transaction', () => {
+    const map = before();
+    const events: string[] = [];
+    map.subscribe(event => events.push(event.type));
+
+    map.applyPatch(map.diff(after()));
+
+    expect(events).toEqual(['delete', 'set', 'set']);
+  });
+
+  test('should leave the map untouched when a patch is malformed', () => {
+    const map = before();
+    const patch = encodePatch(map.diff(after()));
+    (patch.changed as unknown[]).push(['broken']);
+
+    expect(() => map.applyPatch(patch)).toThrow('Malformed patch entry');
+    expect(() => map.applyPatch({} as never)).toThrow('applyPatch requires a diff or a serialized patch');
+    expect(map.diff(before())).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  test('should skip expired entries', () => {
+    const map = createEnhancedTurboMap<string, number>();
+    map.set('a', 1, { ttl: 1000 });
+    map.set('b', 2);
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+
+    try {
+      expect(map.diff([['b', 2]])).toEqual({ added: [], removed: [], changed: [] });
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('should keep sorted maps in order and chaining on the sorted view', () => {
+    const map = createSortedTurboMap<number, string>((a, b) => a - b, [[1, 'a'], [3, 'c']]);
+
+    const diff = map.diff([[4, 'd'], [3, 'C'], [2, 'b'], [0, 'z']]);
+    expect(diff.added.map(([key]) => key)).toEqual([0, 2, 4]);
+
+    const result = map.applyPatch(map.diff([[3, 'c'], [2, 'b'], [4, 'd']]));
+
+    expect(result).toBe(map);
+    expect(Array.from(map.keys())).toEqual([2, 3, 4]);
+  });
+});
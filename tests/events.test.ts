@@ -0,0 +1,73 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+describe('Change Events', () => {
+  test('should emit set events with old and new values', () => {
+    const map = createEnhancedTurboMap<{ id: number }, string>();
+    const listener = jest.fn();
+    map.subscribe(listener);
+
+    map.set({ id: 1 }, 'first');
+    map.set({ id: 1 }, 'second');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0]).toMatchObject({
+      type: 'set',
+      key: { id: 1 },
+      oldValue: 'first',
+      newValue: 'second'
+    });
+  });
+
+  test('should emit delete and clear events', () => {
+    const map = createEnhancedTurboMap<string, number>([['a', 1], ['b', 2]]);
+    const onDelete = jest.fn();
+    const onClear = jest.fn();
+    map.on('delete', onDelete);
+    map.on('clear', onClear);
+
+    map.delete('a');
+    map.delete('missing');
+    map.clear();
+
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect(onDelete.mock.calls[0][0]).toMatchObject({ key: 'a', oldValue: 1 });
+    expect(onClear).toHaveBeenCalledTimes(1);
+  });
+
+  test('should emit evict events for capacity evictions', () => {
+    const map = createEnhancedTurboMap<string, number>({ maxEntries: 1 });
+    const onEvict = jest.fn();
+    map.on('evict', onEvict);
+
+    map.set('a', 1);
+    map.set('b', 2);
+
+    expect(onEvict.mock.calls[0][0]).toMatchObject({ type: 'evict', key: 'a', oldValue: 1 });
+  });
+
+  test('should stop notifying after unsubscribe', () => {
+    const map = createEnhancedTurboMap<string, number>();
+    const listener = jest.fn();
+    const unsubscribe = map.subscribe(listener);
+
+    unsubscribe();
+    map.set('a', 1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should provide a cached snapshot for external stores', () => {
+    const map = createEnhancedTurboMap<string, number>();
+    map.set('a', 1);
+
+    const first = map.getSnapshot();
+    expect(map.getSnapshot()).toBe(first);
+    expect(first).toEqual([['a', 1]]);
+    expect(Object.isFrozen(first)).toBe(true);
+
+    map.set('b', 2);
+    const second = map.getSnapshot();
+    expect(second).not.toBe(first);
+    expect(second).toEqual([['a', 1], ['b', 2]]);
+  });
+});
@@ -0,0 +1,115 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+describe('Entry Expiration', () => {
+  let now: number;
+  let nowSpy: jest.SpyInstance<number, []>;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    nowSpy.mockRestore();
+  });
+
+  test('should expire entries set with a ttl', () => {
+    const map = createEnhancedTurboMap<{ path: string }, string>();
+    const key = { path: '/users' };
+
+    map.set(key, 'cached', { ttl: 1000 });
+    expect(map.get({ path: '/users' })).toBe('cached');
+    expect(map.has(key)).toBe(true);
+
+    now += 1000;
+    expect(map.has(key)).toBe(false);
+    expect(map.get(key)).toBeUndefined();
+    expect(map.size).toBe(0);
+  });
+
+  test('should apply defaultTtl unless overridden per entry', () => {
+    const map = createEnhancedTurboMap<string, number>({ defaultTtl: 500 });
+
+    map.set('short', 1);
+    map.set('forever', 2, { ttl: 0 });
+    map.set('long', 3, { ttl: 5000 });
+
+    now += 600;
+    expect(map.has('short')).toBe(false);
+    expect(map.get('forever')).toBe(2);
+    expect(map.get('long')).toBe(3);
+  });
+
+  test('should skip expired entries during iteration', () => {
+    const map = createEnhancedTurboMap<string, number>();
+    map.set('a', 1, { ttl: 100 });
+    map.set('b', 2);
+
+    now += 100;
+    expect(Array.from(map.entries())).toEqual([['b', 2]]);
+    expect(Array.from(map.keys())).toEqual(['b']);
+  });
+
+  test('should reset the ttl when an entry is overwritten', () => {
+    const map = createEnhancedTurboMap<string, number>();
+    map.set('a', 1, { ttl: 100 });
+    map.set('a', 2);
+
+    now += 200;
+    expect(map.get('a')).toBe(2);
+  });
+
+  test('should not report expired entries as deleted', () => {
+    const map = createEnhancedTurboMap<string, number>();
+    map.set('a', 1, { ttl: 100 });
+
+    now += 100;
+    expect(map.delete('a')).toBe(false);
+  });
+
+  test('should report expiry times and tell plugins about them', async () => {
+    const map = createEnhancedTurboMap<string, number>();
+    const afterSet = jest.fn();
+    const onExpire = jest.fn();
+    await map.addPlugin({ name: 'ttl-observer', afterSet, onExpire });
+
+    map.set('a', 1, { ttl: 100 });
+    map.set('b', 2);
+
+    expect(map.getExpiry('a')).toBe(now + 100);
+    expect(map.getExpiry('b')).toBeUndefined();
+    expect(afterSet.mock.calls).toEqual([['a', 1, now + 100], ['b', 2, undefined]]);
+
+    now += 100;
+    expect(map.getExpiry('a')).toBeUndefined();
+    expect(onExpire).toHaveBeenCalledWith('a', 1);
+  });
+
+  test('should count expirations in metrics', () => {
+    const map = createEnhancedTurboMap<string, number>({ defaultTtl: 10 });
+    map.set('a', 1);
+    map.set('b', 2);
+    map.set('c', 3, { ttl: 0 });
+
+    now += 10;
+    expect(map.size).toBe(1);
+    expect(map.getMetrics().expirations).toBe(2);
+  });
+
+  test('should sweep expired entries in the background', () => {
+    jest.useFakeTimers({ doNotFake: ['Date'] });
+    try {
+      const map = createEnhancedTurboMap<string, number>({
+        enableAutoCleanup: false,
+        expirationCheckInterval: 1000
+      });
+      map.set('a', 1, { ttl: 500 });
+
+      now += 500;
+      jest.advanceTimersByTime(1000);
+      expect(map.getMetrics().expirations).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+describe('Fallback Mode', () => {
+  // An invalid option makes the real map fail to build, so the fallback map is returned
+  const createFallback = () => {
+    const map = createEnhancedTurboMap<string, number>({ keyIndexFields: 5 as never });
+    map.set('a', 1).set('b', 2);
+    return map;
+  };
+
+  let warn: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    error.mockRestore();
+  });
+
+  test('should keep working as a plain map', () => {
+    const map = createFallback();
+
+    expect(map.getMetrics().fallbackMode).toBe(true);
+    expect(map.get('a')).toBe(1);
+    expect(map.filter(value => value > 1)).toEqual([['b', 2]]);
+    expect(map.findByValue(value => value === 1)).toEqual(['a', 1]);
+    expect(Array.from(map.mapValues(value => value * 10).entries())).toEqual([['a', 10], ['b', 20]]);
+    expect(Array.from(map.clone().entries())).toEqual([['a', 1], ['b', 2]]);
+  });
+
+  test('should refuse features it cannot provide', () => {
+    const map = createFallback();
+
+    expect(() => map.diff([])).toThrow('diff() is not supported in fallback mode');
+    expect(() => map.applyPatch({ added: [], removed: [], changed: [] })).toThrow('applyPatch() is not supported in fallback mode');
+    expect(() => map.createIndex('even', value => value % 2 === 0)).toThrow('createIndex() is not supported in fallback mode');
+    expect(() => map.lookup('even', true)).toThrow('lookup() is not supported in fallback mode');
+    expect(() => map.match({ id: 1 })).toThrow('match() is not supported in fallback mode');
+    expect(() => map.subscribe(() => {})).toThrow('subscribe() is not supported in fallback mode');
+    expect(() => map.on('set', () => {})).toThrow('on() is not supported in fallback mode');
+  });
+});
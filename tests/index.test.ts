@@ -327,6 +327,28 @@ describe('TurboMap Main Entry', () => {
       expect(retrieved).toBeDefined();
       expect(retrieved?.timestamp).toBe(complexValue.timestamp);
     });
+
+    test('should round-trip typed keys and values through deserialize', () => {
+      const dateKey = new Date('2024-01-15T10:30:00.000Z');
+      turboMap.set(dateKey, { total: 10n });
+      turboMap.set(/user-\d+/i, new Set(['a', 'b']));
+      turboMap.set(Symbol.for('shared'), new Map([[1, 'one']]));
+      turboMap.set({ id: 1, tags: ['x'] }, undefined);
+
+      const restored = createEnhancedTurboMap.deserialize<any, any>(turboMap.serialize());
+
+      expect(restored.size).toBe(4);
+      expect(restored.get(new Date(dateKey.getTime()))).toEqual({ total: 10n });
+      expect(restored.get(/user-\d+/i)).toEqual(new Set(['a', 'b']));
+      expect(restored.get(Symbol.for('shared'))).toEqual(new Map([[1, 'one']]));
+      expect(restored.has({ id: 1, tags: ['x'] })).toBe(true);
+      expect(Array.from(restored.keys())[0]).toBeInstanceOf(Date);
+    });
+
+    test('should load legacy JSON entry arrays', () => {
+      const restored = createEnhancedTurboMap.deserialize<string, number>('[["a",1],["b",2]]');
+      expect(restored.get('b')).toBe(2);
+    });
   });
 
   describe('Plugin System', () => {
@@ -343,6 +365,21 @@ describe('TurboMap Main Entry', () => {
       const result = await turboMap.addPlugin(plugin as any);
       expect(result).toBeDefined();
     });
+
+    test('should return stored values from get() when plugins have no afterGet hook', async () => {
+      await turboMap.addPlugin({ name: 'observer', afterSet: jest.fn() });
+      turboMap.set('key', 'value');
+
+      expect(turboMap.get('key')).toBe('value');
+      expect(turboMap.get('missing')).toBeUndefined();
+    });
+
+    test('should let an afterGet hook replace the value', async () => {
+      await turboMap.addPlugin({ name: 'upper', afterGet: (_key: string, value: string | undefined) => value?.toUpperCase() });
+      turboMap.set('key', 'value');
+
+      expect(turboMap.get('key')).toBe('VALUE');
+    });
   });
 
   describe('Edge Cases', () => {
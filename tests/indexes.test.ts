@@ -0,0 +1,85 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+interface Job {
+  status: string;
+  owner: { team: string };
+}
+
+describe('Secondary Indexes', () => {
+  const createJobs = () => createEnhancedTurboMap<string, Job>([
+    ['j1', { status: 'active', owner: { team: 'core' } }],
+    ['j2', { status: 'done', owner: { team: 'web' } }],
+    ['j3', { status: 'active', owner: { team: 'web' } }]
+  ]);
+
+  test('should index existing entries and look them up', () => {
+    const map = createJobs();
+    map.createIndex('byStatus', job => job.status);
+
+    expect(map.lookup('byStatus', 'active').map(([key]) => key)).toEqual(['j1', 'j3']);
+    expect(map.lookup('byStatus', 'missing')).toEqual([]);
+  });
+
+  test('should compare object index values structurally', () => {
+    const map = createJobs();
+    map.createIndex('byOwner', job => job.owner);
+
+    expect(map.lookup('byOwner', { team: 'web' }).map(([key]) => key)).toEqual(['j2', 'j3']);
+  });
+
+  test('should stay consistent across set, delete, clear and setAll', () => {
+    const map = createJobs();
+    map.createIndex('byStatus', job => job.status);
+
+    map.set('j1', { status: 'done', owner: { team: 'core' } });
+    map.delete('j3');
+    expect(map.lookup('byStatus', 'active')).toEqual([]);
+    expect(map.lookup('byStatus', 'done').map(([key]) => key)).toEqual(['j2', 'j1']);
+
+    map.setAll([['j4', { status: 'active', owner: { team: 'ops' } }]]);
+    expect(map.lookup('byStatus', 'active').map(([key]) => key)).toEqual(['j4']);
+
+    map.clear();
+    expect(map.lookup('byStatus', 'done')).toEqual([]);
+  });
+
+  test('should roll back index changes with a failed transaction', () => {
+    const map = createJobs();
+    map.createIndex('byStatus', job => job.status);
+
+    expect(() => map.transaction(tx => {
+      tx.set('j2', { status: 'active', owner: { team: 'web' } });
+      tx.delete('j1');
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    expect(map.lookup('byStatus', 'active').map(([key]) => key).sort()).toEqual(['j1', 'j3']);
+    expect(map.lookup('byStatus', 'done').map(([key]) => key)).toEqual(['j2']);
+  });
+
+  test('should drop evicted and expired entries', () => {
+    const map = createEnhancedTurboMap<string, Job>({ maxEntries: 1 });
+    map.createIndex('byStatus', job => job.status);
+
+    map.set('a', { status: 'active', owner: { team: 'core' } });
+    map.set('b', { status: 'active', owner: { team: 'core' } }, { ttl: 60000 });
+    expect(map.lookup('byStatus', 'active').map(([key]) => key)).toEqual(['b']);
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 120000);
+    expect(map.lookup('byStatus', 'active')).toEqual([]);
+    spy.mockRestore();
+  });
+
+  test('should list indexes in debug and reject misuse', () => {
+    const map = createJobs();
+    map.createIndex('byStatus', job => job.status);
+
+    expect(map.debug().indexes).toEqual([{ name: 'byStatus', values: 2, entries: 3 }]);
+    expect(() => map.createIndex('byStatus', job => job.status)).toThrow('already exists');
+    expect(() => map.lookup('byTeam', 'web')).toThrow('does not exist');
+
+    expect(map.dropIndex('byStatus')).toBe(true);
+    expect(map.debug().indexes).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { createEnhancedTurboMap, createSortedTurboMap } from '../src/index';
+
+interface Account {
+  id: number;
+  region?: string;
+}
+
+describe('Key Mutation', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  test('should strand mutated keys by default', () => {
+    const map = createEnhancedTurboMap<Account, string>();
+    const key: Account = { id: 1 };
+    map.set(key, 'first');
+
+    key.id = 2;
+
+    expect(map.get({ id: 2 })).toBeUndefined();
+    expect(map.debug().driftedKeys).toEqual([]);
+  });
+
+  test('should freeze keys on insertion', () => {
+    const map = createEnhancedTurboMap<Account, string>({ keyMutation: 'freeze' });
+    const key: Account = { id: 1 };
+    map.set(key, 'first');
+
+    expect(Object.isFrozen(key)).toBe(true);
+    expect(() => { key.id = 2; }).toThrow(TypeError);
+    expect(map.get({ id: 1 })).toBe('first');
+  });
+
+  test('should store snapshots of keys', () => {
+    const map = createEnhancedTurboMap<Account, string>({ keyMutation: 'snapshot' });
+    const key: Account = { id: 1 };
+    map.set(key, 'first');
+
+    key.id = 2;
+
+    expect(map.get({ id: 1 })).toBe('first');
+    expect(Array.from(map.keys())).toEqual([{ id: 1 }]);
+    expect(map.keys().next().value).not.toBe(key);
+  });
+
+  test('should report and re-key mutated keys in detect mode', () => {
+    const map = createEnhancedTurboMap<Account, string>({ keyMutation: 'detect', keyIndexFields: ['region'] });
+    const key: Account = { id: 1, region: 'eu' };
+    map.set(key, 'first');
+    map.set({ id: 3 }, 'other');
+
+    key.region = 'us';
+
+    const [drift] = map.debug().driftedKeys;
+    expect(map.debug().driftedKeys).toHaveLength(1);
+    expect(drift?.key).toBe(key);
+    expect(drift?.serializedKey).toBe('{"id":1,"region":"eu"}');
+    expect(drift?.currentSerializedKey).toBe('{"id":1,"region":"us"}');
+
+    map.compact();
+
+    expect(map.debug().driftedKeys).toEqual([]);
+    expect(map.get({ id: 1, region: 'us' })).toBe('first');
+    expect(map.has({ id: 1, region: 'eu' })).toBe(false);
+    expect(map.match({ region: 'us' })).toEqual([[key, 'first']]);
+    expect(map.size).toBe(2);
+  });
+
+  test('should leave a mutated key that collides with another entry', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const map = createEnhancedTurboMap<Account, string>({ keyMutation: 'detect' });
+    const key: Account = { id: 1 };
+    map.set(key, 'first');
+    map.set({ id: 2 }, 'second');
+
+    key.id = 2;
+    map.compact();
+
+    expect(map.size).toBe(2);
+    expect(map.get({ id: 2 })).toBe('second');
+    expect(map.debug().driftedKeys).toHaveLength(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('should reject detect mode for sorted maps', () => {
+    expect(() => createSortedTurboMap<Account, string>((a, b) => a.id - b.id, { keyMutation: 'detect' })).toThrow('freeze');
+  });
+});
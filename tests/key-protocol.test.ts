@@ -0,0 +1,64 @@
+import { createEnhancedTurboMap, TurboMap } from '../src/index';
+
+class Money {
+  private formatted: string | null = null;
+
+  constructor(readonly amount: number, readonly currency: string) {}
+
+  format(): string {
+    this.formatted ??= `${this.amount.toFixed(2)} ${this.currency}`;
+    return this.formatted;
+  }
+
+  [TurboMap.hash]() {
+    return `${this.amount}:${this.currency}`;
+  }
+}
+
+class CaseInsensitiveName {
+  constructor(readonly value: string) {}
+
+  [TurboMap.hash]() {
+    return this.value.length;
+  }
+
+  [TurboMap.equals](other: unknown) {
+    return other instanceof CaseInsensitiveName && other.value.toLowerCase() === this.value.toLowerCase();
+  }
+}
+
+describe('Key Identity Protocol', () => {
+  test('should match hashable keys regardless of private caches', () => {
+    const map = createEnhancedTurboMap<Money, string>();
+    const price = new Money(9.5, 'EUR');
+    price.format();
+
+    map.set(price, 'coffee');
+
+    expect(map.get(new Money(9.5, 'EUR'))).toBe('coffee');
+    expect(map.has(new Money(9.5, 'USD'))).toBe(false);
+  });
+
+  test('should resolve hash collisions with equals', () => {
+    const map = createEnhancedTurboMap<CaseInsensitiveName, number>();
+
+    map.set(new CaseInsensitiveName('Alice'), 1);
+    map.set(new CaseInsensitiveName('Brian'), 2);
+    map.set(new CaseInsensitiveName('ALICE'), 3);
+
+    expect(map.size).toBe(2);
+    expect(map.get(new CaseInsensitiveName('alice'))).toBe(3);
+    expect(map.get(new CaseInsensitiveName('brian'))).toBe(2);
+    expect(map.delete(new CaseInsensitiveName('BRIAN'))).toBe(true);
+  });
+
+  test('should find a key stored after the same instance was looked up', () => {
+    const map = createEnhancedTurboMap<CaseInsensitiveName, number>();
+    const name = new CaseInsensitiveName('Carol');
+
+    expect(map.has(name)).toBe(false);
+    map.set(name, 1);
+
+    expect(map.get(new CaseInsensitiveName('CAROL'))).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+interface Request {
+  id: number;
+  version: number;
+  receivedAt: number;
+}
+
+describe('Key Projection', () => {
+  test('should match keys that agree on the projection', () => {
+    const map = createEnhancedTurboMap<Request, string>({ keyBy: key => [key.id, key.version] });
+
+    map.set({ id: 1, version: 2, receivedAt: 100 }, 'cached');
+
+    expect(map.get({ id: 1, version: 2, receivedAt: 999 })).toBe('cached');
+    expect(map.has({ id: 1, version: 3, receivedAt: 100 })).toBe(false);
+    expect(map.delete({ id: 1, version: 2, receivedAt: 0 })).toBe(true);
+    expect(map.size).toBe(0);
+  });
+
+  test('should keep the most recently set key object', () => {
+    const map = createEnhancedTurboMap<Request, string>({ keyBy: key => key.id });
+
+    map.set({ id: 1, version: 1, receivedAt: 100 }, 'first');
+    map.set({ id: 1, version: 1, receivedAt: 200 }, 'second');
+
+    expect(map.size).toBe(1);
+    expect(Array.from(map.keys())).toEqual([{ id: 1, version: 1, receivedAt: 200 }]);
+    expect(map.getSerializedKey({ id: 1, version: 9, receivedAt: 0 })).toBe(map.getSerializedKey({ id: 1, version: 1, receivedAt: 1 }));
+  });
+
+  test('should apply to primitive keys and initial entries', () => {
+    const map = createEnhancedTurboMap<string, number>([['Alpha', 1]], { keyBy: key => key.toLowerCase() });
+
+    expect(map.get('ALPHA')).toBe(1);
+    map.set('alpha', 2);
+    expect(map.size).toBe(1);
+  });
+
+  test('should not affect secondary index values', () => {
+    const map = createEnhancedTurboMap<Request, Request>({ keyBy: key => key.id });
+    map.createIndex('byValue', value => value);
+
+    map.set({ id: 1, version: 1, receivedAt: 0 }, { id: 5, version: 1, receivedAt: 0 });
+
+    expect(map.lookup('byValue', { id: 5, version: 1, receivedAt: 0 })).toHaveLength(1);
+    expect(map.lookup('byValue', { id: 5, version: 2, receivedAt: 0 })).toHaveLength(0);
+  });
+
+  test('should serialize whole keys without a projection', () => {
+    const map = createEnhancedTurboMap<Request, string>();
+
+    map.set({ id: 1, version: 2, receivedAt: 100 }, 'cached');
+
+    expect(map.get({ id: 1, version: 2, receivedAt: 999 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+interface TenantKey {
+  tenantId: number;
+  region: string;
+  scope?: { env: string };
+}
+
+describe('Partial Key Matching', () => {
+  const populate = (options = {}) => createEnhancedTurboMap<TenantKey | string, string>([
+    [{ tenantId: 7, region: 'eu' }, 'a'],
+    [{ tenantId: 7, region: 'us', scope: { env: 'prod' } }, 'b'],
+    [{ tenantId: 8, region: 'eu', scope: { env: 'prod' } }, 'c'],
+    ['plain', 'd']
+  ], options);
+
+  test('should return entries whose key contains the given fields', () => {
+    const map = populate();
+
+    expect(map.match({ tenantId: 7 }).map(([, value]) => value)).toEqual(['a', 'b']);
+    expect(map.match({ tenantId: 7, region: 'us' }).map(([, value]) => value)).toEqual(['b']);
+    expect(map.match({ scope: { env: 'prod' } }).map(([, value]) => value)).toEqual(['b', 'c']);
+    expect(map.match({ tenantId: 9 })).toEqual([]);
+  });
+
+  test('should distinguish value types and missing fields', () => {
+    const map = populate();
+
+    expect(map.match({ tenantId: '7' })).toEqual([]);
+    expect(map.match({ scope: undefined })).toEqual([]);
+  });
+
+  test('should give the same results with key-field indexes', () => {
+    const map = populate({ keyIndexFields: ['tenantId', 'region'] });
+
+    expect(map.match({ tenantId: 7 }).map(([, value]) => value)).toEqual(['a', 'b']);
+    expect(map.match({ tenantId: 8, region: 'eu' }).map(([, value]) => value)).toEqual(['c']);
+    expect(map.debug().indexes).toEqual([
+      { name: 'key.tenantId', values: 3, entries: 4 },
+      { name: 'key.region', values: 3, entries: 4 }
+    ]);
+
+    map.delete({ tenantId: 7, region: 'eu' });
+    map.set({ region: 'us', tenantId: 8 }, 'e');
+    expect(map.match({ tenantId: 7 }).map(([, value]) => value)).toEqual(['b']);
+    expect(map.match({ tenantId: 8 }).map(([, value]) => value)).toEqual(['c', 'e']);
+
+    map.clear();
+    expect(map.match({ tenantId: 8 })).toEqual([]);
+  });
+
+  test('should reject non-object patterns', () => {
+    const map = populate();
+
+    expect(() => map.match('tenantId' as unknown as Record<string, unknown>)).toThrow('plain object');
+  });
+});
@@ -0,0 +1,173 @@
+import { mkdtempSync, readFileSync, writeFileSync, appendFileSync, rmSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FilePersistence } from '../../src/turboMap/plugins/FilePersistence';
+import { createEnhancedTurboMap } from '../../src/turboMap';
+
+describe('FilePersistence', () => {
+  let dir: string;
+  let path: string;
+
+  const readRecords = () => readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'turbomap-'));
+    path = join(dir, 'map.log');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should log sets, deletes and clears with typed keys', async () => {
+    const map = createEnhancedTurboMap<unknown, unknown>();
+    const persistence = new FilePersistence<unknown, unknown>({ path, compactInterval: 0 });
+    await persistence.attach(map);
+
+    map.set({ id: 1 }, new Date(5));
+    map.delete({ id: 1 });
+    map.delete('missing');
+    map.clear();
+
+    const records = readRecords();
+    expect(records.map(record => record.op)).toEqual(['set', 'delete', 'clear']);
+    expect(records[0]).toEqual({
+      op: 'set',
+      k: { $t: 'object', v: { id: 1 } },
+      v: { $t: 'date', v: 5 }
+    });
+  });
+
+  test('should rebuild a map by replaying the log', async () => {
+    const first = createEnhancedTurboMap<unknown, unknown>();
+    const writer = new FilePersistence<unknown, unknown>({ path, compactInterval: 0 });
+    await writer.attach(first);
+    first.set('a', 1);
+    first.set(10n, new Set([1, 2]));
+    first.set('b', 2);
+    first.delete('a');
+    await writer.detach();
+
+    const second = createEnhancedTurboMap<unknown, unknown>();
+    const reader = new FilePersistence<unknown, unknown>({ path, compactInterval: 0 });
+
+    expect(await reader.attach(second)).toBe(4);
+    expect(second.size).toBe(2);
+    expect(second.get(10n)).toEqual(new Set([1, 2]));
+    expect(second.get('b')).toBe(2);
+    // Replayed writes are not logged again
+    expect(readRecords()).toHaveLength(4);
+    await reader.detach();
+  });
+
+  test('should skip a torn trailing record', async () => {
+    writeFileSync(path, JSON.stringify({ op: 'set', k: 'a', v: 1 }) + '\n');
+    appendFileSync(path, '{"op":"set","k":"b"');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const map = createEnhancedTurboMap<string, number>();
+    const persistence = new FilePersistence<string, number>({ path, compactInterval: 0 });
+
+    expect(await persistence.attach(map)).toBe(1);
+    expect(Array.from(map.entries())).toEqual([['a', 1]]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+    await persistence.detach();
+  });
+
+  test('should compact the log into one record per live entry', async () => {
+    const map = createEnhancedTurboMap<string, number>();
+    const persistence = new FilePersistence<string, number>({ path, compactInterval: 0 });
+    await persistence.attach(map);
+    for (let i = 0; i < 10; i++) {
+      map.set('counter', i);
+    }
+    map.set('other', 1);
+    map.delete('other');
+
+    expect(persistence.compact()).toBe(true);
+    expect(readRecords()).toEqual([{ op: 'set', k: 'counter', v: 9 }]);
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+
+    map.set('next', 1);
+    expect(readRecords()).toHaveLength(2);
+    await persistence.detach();
+  });
+
+  test('should compact in the background', async () => {
+    jest.useFakeTimers();
+    try {
+      const map = createEnhancedTurboMap<string, number>();
+      const persistence = new FilePersistence<string, number>({ path, compactInterval: 1000 });
+      await persistence.attach(map);
+      map.set('a', 1);
+      map.set('a', 2);
+
+      jest.advanceTimersByTime(1000);
+      expect(readRecords()).toEqual([{ op: 'set', k: 'a', v: 2 }]);
+      await persistence.detach();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should log evictions and stop logging once detached', async () => {
+    const map = createEnhancedTurboMap<string, number>({ maxEntries: 1 });
+    const persistence = new FilePersistence<string, number>({ path, compactInterval: 0 });
+    await persistence.attach(map);
+    map.set('a', 1);
+    map.set('b', 2);
+    await persistence.detach();
+    map.set('c', 3);
+
+    expect(readRecords().map(record => [record.op, record.k])).toEqual([['set', 'a'], ['delete', 'a'], ['set', 'b']]);
+    expect(persistence.compact()).toBe(false);
+  });
+
+  test('should keep expiry times across a restart', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    try {
+      const first = createEnhancedTurboMap<string, number>({ expirationCheckInterval: 0 });
+      const writer = new FilePersistence<string, number>({ path, compactInterval: 0 });
+      await writer.attach(first);
+      first.set('short', 1, { ttl: 1000 });
+      first.set('long', 2, { ttl: 60000 });
+      first.set('forever', 3);
+      expect(readRecords()[0]).toEqual({ op: 'set', k: 'short', v: 1, e: now + 1000 });
+
+      // Expiring while attached is logged, and compaction keeps the remaining expiry times
+      clock.mockReturnValue(now + 2000);
+      expect(first.has('short')).toBe(false);
+      expect(readRecords().map(record => record.op)).toEqual(['set', 'set', 'set', 'delete']);
+      expect(writer.compact()).toBe(true);
+      expect(readRecords()).toEqual([{ op: 'set', k: 'long', v: 2, e: now + 60000 }, { op: 'set', k: 'forever', v: 3 }]);
+      await writer.detach();
+
+      // Restarted after 'long' had expired as well
+      clock.mockReturnValue(now + 30000);
+      const second = createEnhancedTurboMap<string, number>({ expirationCheckInterval: 0 });
+      const reader = new FilePersistence<string, number>({ path, compactInterval: 0 });
+      await reader.attach(second);
+      expect(Array.from(second.keys()).sort()).toEqual(['forever', 'long']);
+      expect(second.getExpiry('long')).toBe(now + 60000);
+      expect(second.getExpiry('forever')).toBeUndefined();
+
+      clock.mockReturnValue(now + 61000);
+      const third = createEnhancedTurboMap<string, number>({ expirationCheckInterval: 0 });
+      await reader.detach();
+      await new FilePersistence<string, number>({ path, compactInterval: 0 }).attach(third);
+      expect(Array.from(third.keys())).toEqual(['forever']);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('should refuse to attach twice', async () => {
+    const persistence = new FilePersistence<string, number>({ path, compactInterval: 0 });
+    await persistence.attach(createEnhancedTurboMap<string, number>());
+
+    await expect(persistence.attach(createEnhancedTurboMap<string, number>())).rejects.toThrow('Already attached');
+    await persistence.detach();
+  });
+});
@@ -120,6 +120,25 @@ describe('PluginManager', () => {
       expect(plugin.afterSet).toHaveBeenCalledWith('test-key', 'test-value');
     });
 
+    test('should return undefined when no after hook returns a result', () => {
+      const plugin: TurboMapPlugin<string, any> = {
+        name: 'test-plugin',
+        afterSet: jest.fn()
+      };
+
+      pluginManager.addPlugin(plugin);
+
+      const context = {
+        operation: 'get',
+        key: 'test-key',
+        value: 'test-value',
+        timestamp: Date.now()
+      };
+
+      expect(pluginManager.executeAfter('afterGet', context, 'test-key', 'test-value')).toBeUndefined();
+      expect(pluginManager.executeAfter('afterSet', context, 'test-key', 'test-value')).toBeUndefined();
+    });
+
     test('should handle multiple plugins', () => {
       const plugin1: TurboMapPlugin<string, any> = {
         name: 'plugin1',
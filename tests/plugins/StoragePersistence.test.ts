@@ -0,0 +1,245 @@
+import { StoragePersistence, isQuotaExceededError, type StorageLike } from '../../src/turboMap/plugins/StoragePersistence';
+import { createEnhancedTurboMap } from '../../src/turboMap';
+import { globalErrorRecovery, ErrorType } from '../../src/turboMap/utils/ErrorRecovery';
+
+class MemoryStorage implements StorageLike {
+  items = new Map<string, string>();
+  quota = Infinity;
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    const used = Array.from(this.items).reduce((total, [k, v]) => total + (k === key ? 0 : k.length + v.length), 0);
+    if (used + key.length + value.length > this.quota) {
+      const error = new Error('The quota has been exceeded.');
+      error.name = 'QuotaExceededError';
+      throw error;
+    }
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+describe('StoragePersistence', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  test('should store entries under the namespace and serialized key with typed records', async () => {
+    const map = createEnhancedTurboMap<unknown, unknown>();
+    const persistence = new StoragePersistence<unknown, unknown>({ storage, namespace: 'app' });
+    await persistence.attach(map);
+
+    map.set('a', 1);
+    map.set({ id: 1 }, new Date(5));
+
+    expect(JSON.parse(storage.getItem('app:"a"') as string)).toEqual({ op: 'set', k: 'a', v: 1 });
+    expect(JSON.parse(storage.getItem(`app:${map.getSerializedKey({ id: 1 })}`) as string)).toEqual({
+      op: 'set',
+      k: { $t: 'object', v: { id: 1 } },
+      v: { $t: 'date', v: 5 }
+    });
+    await persistence.detach();
+  });
+
+  test('should keep one item per map key for reordered and keyBy-equal keys', async () => {
+    const first = createEnhancedTurboMap<{ a: number; b: number }, string>();
+    const writer = new StoragePersistence<{ a: number; b: number }, string>({ storage, namespace: 'plain' });
+    await writer.attach(first);
+    first.set({ a: 1, b: 2 }, 'old');
+    first.set({ b: 2, a: 1 }, 'new');
+    first.set({ a: 3, b: 4 }, 'kept');
+    expect(first.size).toBe(2);
+    expect(storage.length).toBe(2);
+
+    first.delete({ b: 2, a: 1 });
+    expect(storage.length).toBe(1);
+    await writer.detach();
+
+    const second = createEnhancedTurboMap<{ a: number; b: number }, string>();
+    await new StoragePersistence<{ a: number; b: number }, string>({ storage, namespace: 'plain' }).attach(second);
+    expect(Array.from(second.entries())).toEqual([[{ a: 3, b: 4 }, 'kept']]);
+
+    type User = { id: number; name: string };
+    const byId = createEnhancedTurboMap<User, string>({ keyBy: user => user.id });
+    const users = new StoragePersistence<User, string>({ storage, namespace: 'users' });
+    await users.attach(byId);
+    byId.set({ id: 1, name: 'Ann' }, 'first');
+    byId.set({ id: 1, name: 'Anne' }, 'second');
+    byId.delete({ id: 1, name: 'anyone' });
+    byId.set({ id: 2, name: 'Bo' }, 'third');
+    await users.detach();
+
+    const reloaded = createEnhancedTurboMap<User, string>({ keyBy: user => user.id });
+    await new StoragePersistence<User, string>({ storage, namespace: 'users' }).attach(reloaded);
+    expect(Array.from(reloaded.values())).toEqual(['third']);
+  });
+
+  test('should keep expiry times and drop entries that expired while stored', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    try {
+      const first = createEnhancedTurboMap<string, number>({ expirationCheckInterval: 0 });
+      const writer = new StoragePersistence<string, number>({ storage });
+      await writer.attach(first);
+      first.set('short', 1, { ttl: 1000 });
+      first.set('long', 2, { ttl: 60000 });
+      first.set('forever', 3);
+      expect(JSON.parse(storage.getItem('turbomap:"long"') as string).e).toBe(now + 60000);
+
+      // Expiring while attached removes the item
+      clock.mockReturnValue(now + 2000);
+      expect(first.has('short')).toBe(false);
+      expect(storage.getItem('turbomap:"short"')).toBeNull();
+      await writer.detach();
+
+      clock.mockReturnValue(now + 30000);
+      const second = createEnhancedTurboMap<string, number>({ expirationCheckInterval: 0 });
+      await new StoragePersistence<string, number>({ storage }).attach(second);
+      expect(second.getExpiry('long')).toBe(now + 60000);
+      expect(second.getExpiry('forever')).toBeUndefined();
+
+      // Reloaded after 'long' expired: not restored, and its item is removed
+      clock.mockReturnValue(now + 61000);
+      const third = createEnhancedTurboMap<string, number>({ expirationCheckInterval: 0 });
+      expect(await new StoragePersistence<string, number>({ storage }).attach(third)).toBe(1);
+      expect(Array.from(third.keys())).toEqual(['forever']);
+      expect(storage.getItem('turbomap:"long"')).toBeNull();
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('should rehydrate a map from storage', async () => {
+    const first = createEnhancedTurboMap<unknown, unknown>();
+    const writer = new StoragePersistence<unknown, unknown>({ storage });
+    await writer.attach(first);
+    first.set(1n, new Set(['x']));
+    first.set('b', [1, 2]);
+    await writer.detach();
+    storage.setItem('other:"c"', '3');
+
+    const second = createEnhancedTurboMap<unknown, unknown>();
+    const reader = new StoragePersistence<unknown, unknown>({ storage });
+
+    expect(await reader.attach(second)).toBe(2);
+    expect(second.get(1n)).toEqual(new Set(['x']));
+    expect(second.get('b')).toEqual([1, 2]);
+    expect(second.has('c')).toBe(false);
+    await reader.detach();
+  });
+
+  test('should remove items on delete, eviction and clear', async () => {
+    const map = createEnhancedTurboMap<string, number>({ maxEntries: 2 });
+    const persistence = new StoragePersistence<string, number>({ storage, namespace: 'ns' });
+    await persistence.attach(map);
+    storage.setItem('unrelated', 'kept');
+
+    map.set('a', 1);
+    map.set('b', 2);
+    map.set('c', 3);
+    expect(storage.getItem('ns:"a"')).toBeNull();
+
+    map.delete('b');
+    expect(Array.from(storage.items.keys())).toEqual(['unrelated', 'ns:"c"']);
+
+    map.set('d', 4);
+    map.clear();
+    expect(Array.from(storage.items.keys())).toEqual(['unrelated']);
+    await persistence.detach();
+  });
+
+  test('should keep namespaces that share a prefix apart', async () => {
+    const app = createEnhancedTurboMap<string, number>();
+    const users = createEnhancedTurboMap<string, number>();
+    const appPersistence = new StoragePersistence<string, number>({ storage, namespace: 'app' });
+    const usersPersistence = new StoragePersistence<string, number>({ storage, namespace: 'app:users' });
+    await appPersistence.attach(app);
+    await usersPersistence.attach(users);
+    app.set('a', 1);
+    users.set('u', 2);
+    await appPersistence.detach();
+    await usersPersistence.detach();
+
+    const reloaded = createEnhancedTurboMap<string, number>();
+    const reader = new StoragePersistence<string, number>({ storage, namespace: 'app' });
+    expect(await reader.attach(reloaded)).toBe(1);
+    expect(Array.from(reloaded.keys())).toEqual(['a']);
+
+    reader.removeAll();
+    expect(Array.from(storage.items.keys())).toEqual(['app\\:users:"u"']);
+    await reader.detach();
+  });
+
+  test('should move items whose key now serializes differently', async () => {
+    storage.setItem('turbomap:stale', JSON.stringify({ op: 'set', k: 'a', v: 1 }));
+    const map = createEnhancedTurboMap<string, number>();
+    const persistence = new StoragePersistence<string, number>({ storage });
+
+    expect(await persistence.attach(map)).toBe(1);
+    expect(Array.from(storage.items.keys())).toEqual(['turbomap:"a"']);
+
+    map.delete('a');
+    expect(storage.length).toBe(0);
+    await persistence.detach();
+  });
+
+  test('should skip unreadable items', async () => {
+    storage.setItem('turbomap:"a"', JSON.stringify({ op: 'set', k: 'a', v: 1 }));
+    storage.setItem('turbomap:"b"', '2');
+    storage.setItem('turbomap:"c"', JSON.stringify({ op: 'clear' }));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const map = createEnhancedTurboMap<string, number>();
+    const persistence = new StoragePersistence<string, number>({ storage });
+
+    expect(await persistence.attach(map)).toBe(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+    await persistence.detach();
+  });
+
+  test('should report quota errors and keep the map working', async () => {
+    const map = createEnhancedTurboMap<string, string>();
+    const persistence = new StoragePersistence<string, string>({ storage });
+    await persistence.attach(map);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const before = globalErrorRecovery.getStats().byType[ErrorType.QUOTA];
+
+    map.set('small', 'x');
+    storage.quota = 50;
+    map.set('small', 'y'.repeat(100));
+    map.set('other', 'z');
+
+    expect(map.get('small')).toBe('y'.repeat(100));
+    expect(globalErrorRecovery.getStats().byType[ErrorType.QUOTA]).toBe(before + 1);
+    // The outdated copy is dropped rather than left to be rehydrated
+    expect(storage.getItem('turbomap:"small"')).toBeNull();
+    expect(JSON.parse(storage.getItem('turbomap:"other"') as string).v).toBe('z');
+    warn.mockRestore();
+    await persistence.detach();
+  });
+
+  test('should recognize quota errors across browsers', () => {
+    expect(isQuotaExceededError({ name: 'QuotaExceededError' })).toBe(true);
+    expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true);
+    expect(isQuotaExceededError({ code: 22 })).toBe(true);
+    expect(isQuotaExceededError(new Error('other'))).toBe(false);
+    expect(isQuotaExceededError(null)).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+import { BroadcastChannel, MessageChannel } from 'node:worker_threads';
+import { WorkerSync, compareClocks, type SyncChannel, type SyncMessage } from '../../src/turboMap/plugins/WorkerSync';
+import { createEnhancedTurboMap, type EnhancedTurboMapLike } from '../../src/turboMap';
+
+// Messages between channels in one thread arrive on a later turn of the event loop
+const flush = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('WorkerSync', () => {
+  const channels: { close(): void }[] = [];
+  const syncs: WorkerSync<any, any>[] = [];
+
+  const replica = async <K, V>(channel: SyncChannel, replicaId: string, map = createEnhancedTurboMap<K, V>()): Promise<EnhancedTurboMapLike<K, V>> => {
+    const sync = new WorkerSync<K, V>({ channel, replicaId });
+    await sync.attach(map);
+    syncs.push(sync);
+    return map;
+  };
+  const broadcast = (name: string) => {
+    const channel = new BroadcastChannel(name);
+    channels.push(channel);
+    return channel as unknown as SyncChannel;
+  };
+
+  afterEach(async () => {
+    for (const sync of syncs.splice(0)) {
+      await sync.detach();
+    }
+    for (const channel of channels.splice(0)) {
+      channel.close();
+    }
+  });
+
+  describe('Vector Clocks', () => {
+    test('should order clocks and detect concurrent ones', () => {
+      expect(compareClocks({ a: 1 }, { a: 1 })).toBe('equal');
+      expect(compareClocks({ a: 1 }, { a: 2 })).toBe('before');
+      expect(compareClocks({ a: 2, b: 1 }, { a: 2 })).toBe('after');
+      expect(compareClocks({ a: 1 }, { b: 1 })).toBe('concurrent');
+    });
+  });
+
+  describe('Replication', () => {
+    test('should apply sets, deletes and clears on peers over BroadcastChannel', async () => {
+      const a = await replica<unknown, unknown>(broadcast('sync-basic'), 'a');
+      const b = await replica<unknown, unknown>(broadcast('sync-basic'), 'b');
+
+      a.set({ id: 1 }, new Set([1]));
+      a.set('x', 1);
+      await flush();
+      expect(b.get({ id: 1 })).toEqual(new Set([1]));
+      expect(b.get('x')).toBe(1);
+
+      b.delete('x');
+      await flush();
+      expect(a.has('x')).toBe(false);
+
+      a.clear();
+      await flush();
+      expect(b.size).toBe(0);
+    });
+
+    test('should sync over a MessagePort pair', async () => {
+      const { port1, port2 } = new MessageChannel();
+      channels.push(port1, port2);
+      const a = await replica<string, number>(port1 as unknown as SyncChannel, 'a');
+      const b = await replica<string, number>(port2 as unknown as SyncChannel, 'b');
+
+      a.set('n', 1);
+      await flush();
+      b.set('n', b.get('n')! + 1);
+      await flush();
+
+      expect(a.get('n')).toBe(2);
+    });
+
+    test('should apply transactions once they commit', async () => {
+      const a = await replica<string, number>(broadcast('sync-tx'), 'a');
+      const b = await replica<string, number>(broadcast('sync-tx'), 'b');
+
+      a.transaction(tx => {
+        tx.set('x', 1);
+        tx.set('y', 2);
+      });
+      await flush();
+
+      expect(Array.from(b.entries())).toEqual([['x', 1], ['y', 2]]);
+    });
+
+    test('should bring a late replica up to date', async () => {
+      const a = await replica<string, number>(broadcast('sync-late'), 'a');
+      a.set('x', 1);
+      a.set('gone', 2);
+      a.delete('gone');
+      await flush();
+
+      const b = await replica<string, number>(broadcast('sync-late'), 'b', createEnhancedTurboMap<string, number>([['gone', 0]]));
+      await flush();
+
+      expect(b.get('x')).toBe(1);
+      // The delete follows nothing b has seen, so b's own entry stays and reaches a
+      expect(b.get('gone')).toBe(0);
+      expect(a.get('gone')).toBe(0);
+    });
+
+    test('should not offer evicted or expired entries to a late replica', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      try {
+        const a = await replica<string, number>(broadcast('sync-evict'), 'a', createEnhancedTurboMap<string, number>({ maxEntries: 2, expirationCheckInterval: 0 }));
+        a.set('evicted', 1);
+        a.set('expiring', 2, { ttl: 1000 });
+        a.set('kept', 3);
+        clock.mockReturnValue(now + 2000);
+        expect(Array.from(a.keys())).toEqual(['kept']);
+
+        const b = await replica<string, number>(broadcast('sync-evict'), 'b');
+        await flush();
+
+        expect(Array.from(b.entries())).toEqual([['kept', 3]]);
+        expect(Array.from(a.keys())).toEqual(['kept']);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+  });
+
+  describe('Conflicts', () => {
+    // Channel whose messages are held until released, to stage concurrent writes
+    const heldChannel = () => {
+      const listeners = new Set<(event: { data: unknown }) => void>();
+      const held: unknown[] = [];
+      const channel: SyncChannel = {
+        postMessage: message => held.push(message),
+        addEventListener: (_type, listener) => listeners.add(listener),
+        removeEventListener: (_type, listener) => listeners.delete(listener)
+      };
+      return {
+        channel,
+        held,
+        deliver: (messages: unknown[]) => {
+          for (const data of messages.splice(0)) {
+            listeners.forEach(listener => listener({ data }));
+          }
+        }
+      };
+    };
+
+    test('should settle concurrent writes on the later one everywhere', async () => {
+      const left = heldChannel();
+      const right = heldChannel();
+      const a = await replica<string, string>(left.channel, 'a');
+      const b = await replica<string, string>(right.channel, 'b');
+      left.held.length = 0;
+      right.held.length = 0;
+
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(1000);
+      a.set('k', 'from a');
+      now.mockReturnValue(2000);
+      b.set('k', 'from b');
+      now.mockRestore();
+
+      right.deliver(left.held);
+      left.deliver(right.held);
+
+      expect(a.get('k')).toBe('from b');
+      expect(b.get('k')).toBe('from b');
+    });
+
+    test('should break timestamp ties by replica id', async () => {
+      const left = heldChannel();
+      const right = heldChannel();
+      const a = await replica<string, string>(left.channel, 'a');
+      const b = await replica<string, string>(right.channel, 'b');
+      left.held.length = 0;
+      right.held.length = 0;
+
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      b.set('k', 'from b');
+      a.set('k', 'from a');
+      now.mockRestore();
+
+      right.deliver(left.held);
+      left.deliver(right.held);
+
+      expect(a.get('k')).toBe('from b');
+      expect(b.get('k')).toBe('from b');
+    });
+
+    test('should let a write that saw the previous one win regardless of time', async () => {
+      const left = heldChannel();
+      const right = heldChannel();
+      const a = await replica<string, string>(left.channel, 'a');
+      const b = await replica<string, string>(right.channel, 'b');
+
+      const now = jest.spyOn(Date, 'now').mockReturnValue(5000);
+      a.set('k', 'first');
+      right.deliver(left.held);
+      now.mockReturnValue(1000);
+      b.set('k', 'second');
+      now.mockRestore();
+      left.deliver(right.held);
+
+      expect(a.get('k')).toBe('second');
+    });
+
+    test('should ignore its own and foreign messages', async () => {
+      const { channel, deliver } = heldChannel();
+      const a = await replica<string, number>(channel, 'a');
+      const own: SyncMessage = {
+        protocol: 'turbomap-sync',
+        replica: 'a',
+        type: 'update',
+        updates: [{ k: 'x', v: 1, clock: { a: 9 }, time: 0, replica: 'a' }]
+      };
+
+      deliver([own, { hello: 'world' }, null]);
+
+      expect(a.size).toBe(0);
+    });
+  });
+
+  test('should stop syncing once detached', async () => {
+    const a = await replica<string, number>(broadcast('sync-detach'), 'a');
+    const b = await replica<string, number>(broadcast('sync-detach'), 'b');
+
+    await syncs[1]!.detach();
+    a.set('x', 1);
+    b.set('y', 2);
+    await flush();
+
+    expect(b.has('x')).toBe(false);
+    expect(a.has('y')).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { createEnhancedTurboMap } from '../src/index';
+import { createEnhancedTurboMap, globalSerializer, KeySerializationError } from '../src/index';
 
 describe('Key Serialization Tests', () => {
   let turboMap: ReturnType<typeof createEnhancedTurboMap<any, any>>;
@@ -162,6 +162,53 @@ describe('Key Serialization Tests', () => {
     });
   });
 
+  describe('Symbol Identity Modes', () => {
+    test('should match local symbols by description', () => {
+      const map = createEnhancedTurboMap<symbol, string>({ symbolIdentity: 'description' });
+
+      map.set(Symbol('a'), 'a');
+      map.set(Symbol('b'), 'b');
+      map.set(Symbol(), 'none');
+
+      expect(map.size).toBe(3);
+      expect(map.get(Symbol('a'))).toBe('a');
+      expect(map.get(Symbol(''))).toBeUndefined();
+      expect(map.get(Symbol())).toBe('none');
+    });
+
+    test('should keep every local symbol apart by identity', () => {
+      const map = createEnhancedTurboMap<symbol, string>({ symbolIdentity: 'identity' });
+      const sentinel = Symbol('sentinel');
+
+      map.set(sentinel, 'private');
+      map.set(Symbol('sentinel'), 'other');
+
+      expect(map.size).toBe(2);
+      expect(map.get(sentinel)).toBe('private');
+      expect(map.get(Symbol('sentinel'))).toBeUndefined();
+    });
+
+    test('should match registered symbols by key in every mode', () => {
+      const map = createEnhancedTurboMap<unknown, string>({ symbolIdentity: 'identity' });
+
+      map.set({ tag: Symbol.for('shared') }, 'shared');
+
+      expect(map.get({ tag: Symbol.for('shared') })).toBe('shared');
+    });
+
+    test('should apply inside object keys', () => {
+      const map = createEnhancedTurboMap<unknown, string>({ symbolIdentity: 'identity' });
+      const first = Symbol('id');
+      const second = Symbol('id');
+
+      map.set({ id: first }, 'first');
+      map.set({ id: second }, 'second');
+
+      expect(map.get({ id: first })).toBe('first');
+      expect(map.get({ id: second })).toBe('second');
+    });
+  });
+
   describe('Mixed Complex Keys', () => {
     test('should handle combination of Date and Symbol keys', () => {
       const date = new Date('2024-01-15T10:30:00.000Z');
@@ -204,6 +251,97 @@ describe('Key Serialization Tests', () => {
     });
   });
 
+  describe('Collection and Binary Keys', () => {
+    test('should distinguish Map keys by content', () => {
+      turboMap.set(new Map([['a', 1]]), 'a1');
+      turboMap.set(new Map([['a', 2]]), 'a2');
+
+      expect(turboMap.size).toBe(2);
+      expect(turboMap.get(new Map([['a', 1]]))).toBe('a1');
+      expect(turboMap.get(new Map())).toBeUndefined();
+    });
+
+    test('should compare Set keys regardless of insertion order', () => {
+      turboMap.set(new Set([1, 2, 3]), 'set');
+
+      expect(turboMap.get(new Set([3, 1, 2]))).toBe('set');
+      expect(turboMap.get(new Set([1, 2]))).toBeUndefined();
+    });
+
+    test('should distinguish typed arrays, buffers and views', () => {
+      turboMap.set(new Uint8Array([1, 2]), 'uint8');
+      turboMap.set(new Int8Array([1, 2]), 'int8');
+      turboMap.set(new Uint8Array([1, 2]).buffer, 'buffer');
+      turboMap.set(new DataView(new Uint8Array([1, 2]).buffer), 'view');
+      turboMap.set({ 0: 1, 1: 2 }, 'object');
+
+      expect(turboMap.size).toBe(5);
+      expect(turboMap.get(new Uint8Array([1, 2]))).toBe('uint8');
+      expect(turboMap.get(new Uint8Array([2, 1]))).toBeUndefined();
+      expect(turboMap.get(new Uint8Array([9, 1, 2]).buffer.slice(1))).toBe('buffer');
+    });
+
+    test('should compare URL keys by href', () => {
+      turboMap.set(new URL('https://example.com/a?x=1'), 'url');
+
+      expect(turboMap.get(new URL('https://EXAMPLE.com/a?x=1'))).toBe('url');
+      expect(turboMap.get(new URL('https://example.com/b'))).toBeUndefined();
+      expect(turboMap.get({})).toBeUndefined();
+    });
+
+    test('should distinguish nested collections', () => {
+      turboMap.set({ tags: new Set(['a']) }, 'a');
+      turboMap.set({ tags: new Set(['b']) }, 'b');
+
+      expect(turboMap.get({ tags: new Set(['a']) })).toBe('a');
+      expect(turboMap.size).toBe(2);
+    });
+  });
+
+  describe('String Escaping', () => {
+    test('should not let strings imitate other keys', () => {
+      turboMap.set({ a: 1, b: 2 }, 'object');
+      turboMap.set({ 'a":1,"b': 2 }, 'crafted');
+      turboMap.set(['x', 'y'], 'pair');
+      turboMap.set(['x","y'], 'single');
+
+      expect(turboMap.size).toBe(4);
+      expect(turboMap.get({ a: 1, b: 2 })).toBe('object');
+      expect(turboMap.get(['x', 'y'])).toBe('pair');
+    });
+
+    test('should keep primitives of different types apart', () => {
+      turboMap.set('1', 'string');
+      turboMap.set(undefined, 'undefined');
+
+      expect(turboMap.get(1)).toBeUndefined();
+      expect(turboMap.get('undefined')).toBeUndefined();
+      expect(turboMap.get('1')).toBe('string');
+    });
+
+    test('should reject keys that cannot be serialized instead of sharing a fallback', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const unreadable = (name: string) => ({
+        name,
+        get broken(): never {
+          throw new Error('unreadable');
+        }
+      });
+
+      try {
+        expect(() => globalSerializer.serialize(unreadable('a'))).toThrow(KeySerializationError);
+        turboMap.set(unreadable('a'), 'a');
+        turboMap.set(unreadable('b'), 'b');
+        turboMap.set({ name: 'a' }, 'plain');
+      } finally {
+        warn.mockRestore();
+      }
+
+      expect(turboMap.size).toBe(1);
+      expect(turboMap.get({ name: 'a' })).toBe('plain');
+    });
+  });
+
   describe('Serialization Consistency', () => {
     test('should produce consistent serialization for same values', () => {
       const date1 = new Date('2024-01-15T10:30:00.000Z');
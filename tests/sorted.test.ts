@@ -0,0 +1,121 @@
+import { createEnhancedTurboMap, createSortedTurboMap } from '../src/index';
+
+interface DayKey {
+  userId: number;
+  day: string;
+}
+
+const byDayThenUser = (a: DayKey, b: DayKey) => a.day.localeCompare(b.day) || a.userId - b.userId;
+
+describe('Sorted TurboMap', () => {
+  const populate = () => createSortedTurboMap<DayKey, number>(byDayThenUser, [
+    [{ userId: 2, day: '2024-01-02' }, 20],
+    [{ userId: 1, day: '2024-01-03' }, 30],
+    [{ userId: 1, day: '2024-01-01' }, 10],
+    [{ userId: 2, day: '2024-01-01' }, 11]
+  ]);
+
+  test('should iterate in comparator order', () => {
+    const map = populate();
+
+    expect(Array.from(map.values())).toEqual([10, 11, 20, 30]);
+    expect(Array.from(map).map(([key]) => key.day)).toEqual(['2024-01-01', '2024-01-01', '2024-01-02', '2024-01-03']);
+    expect(map.filter(value => value > 10).map(([, value]) => value)).toEqual([11, 20, 30]);
+    expect(Object.prototype.toString.call(map)).toBe('[object SortedTurboMap]');
+  });
+
+  test('should answer first, last, floor and ceiling', () => {
+    const map = populate();
+
+    expect(map.first()?.[1]).toBe(10);
+    expect(map.last()?.[1]).toBe(30);
+    expect(map.floor({ userId: 9, day: '2024-01-02' })?.[1]).toBe(20);
+    expect(map.ceiling({ userId: 0, day: '2024-01-02' })?.[1]).toBe(20);
+    expect(map.floor({ userId: 0, day: '2023-12-31' })).toBeUndefined();
+  });
+
+  test('should return inclusive ranges including comparator ties', () => {
+    const map = createSortedTurboMap<DayKey, number>((a, b) => a.day.localeCompare(b.day), [
+      [{ userId: 1, day: '2024-01-01' }, 1],
+      [{ userId: 2, day: '2024-01-02' }, 2],
+      [{ userId: 3, day: '2024-01-02' }, 3],
+      [{ userId: 4, day: '2024-01-03' }, 4]
+    ]);
+
+    const window = map.range({ userId: 0, day: '2024-01-02' }, { userId: 0, day: '2024-01-03' });
+    expect(window.map(([, value]) => value)).toEqual([2, 3, 4]);
+  });
+
+  test('should follow updates, deletes, clears and failed transactions', () => {
+    const map = populate();
+
+    const chained = map.set({ day: '2024-01-01', userId: 1 }, 15).set({ userId: 3, day: '2024-01-04' }, 40);
+    expect(chained).toBe(map);
+    map.delete({ userId: 3, day: '2024-01-04' });
+    map.delete({ userId: 1, day: '2024-01-03' });
+    expect(Array.from(map.values())).toEqual([15, 11, 20]);
+
+    expect(() => map.transaction(tx => {
+      tx.set({ userId: 5, day: '2023-01-01' }, 0);
+      throw new Error('abort');
+    })).toThrow('abort');
+    expect(map.first()?.[1]).toBe(15);
+
+    map.clear();
+    expect(map.first()).toBeUndefined();
+    expect(map.size).toBe(0);
+  });
+
+  test('should drop evicted and expired entries from the order', () => {
+    const map = createSortedTurboMap<number, string>((a, b) => a - b, { maxEntries: 2, evictionPolicy: 'fifo' });
+    map.set(3, 'c');
+    map.set(1, 'a');
+    map.set(2, 'b', { ttl: 60000 });
+
+    expect(Array.from(map.keys())).toEqual([1, 2]);
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 120000);
+    expect(Array.from(map.keys())).toEqual([1]);
+    expect(map.last()?.[0]).toBe(1);
+    spy.mockRestore();
+  });
+
+  test('should run plugins and clone with the same order', async () => {
+    const map = createSortedTurboMap<number, string>((a, b) => b - a);
+    await map.addPlugin({
+      name: 'upper',
+      version: '1.0.0',
+      beforeSet: (key: number, value: string) => ({ key, value: value.toUpperCase() })
+    });
+
+    map.set(1, 'a');
+    map.set(2, 'b');
+
+    const copy = map.clone();
+    copy.set(3, 'c');
+    expect(Array.from(map.values())).toEqual(['B', 'A']);
+    expect(Array.from(copy.keys())).toEqual([3, 2, 1]);
+  });
+
+  test('should snapshot, export and map values in comparator order', () => {
+    const map = populate();
+    const first = map.getSnapshot();
+
+    expect(first.map(([, value]) => value)).toEqual([10, 11, 20, 30]);
+    expect(map.getSnapshot()).toBe(first);
+    map.set({ userId: 0, day: '2024-01-01' }, 9);
+    expect(map.getSnapshot().map(([, value]) => value)).toEqual([9, 10, 11, 20, 30]);
+
+    expect(JSON.parse(map.serialize()).entries.map(([, value]: [unknown, number]) => value)).toEqual([9, 10, 11, 20, 30]);
+    expect(Array.from(createEnhancedTurboMap.fromBinary<DayKey, number>(map.toBinary()).values())).toEqual([9, 10, 11, 20, 30]);
+
+    const doubled = map.mapValues(value => value * 2);
+    doubled.set({ userId: 9, day: '2024-01-01' }, 0);
+    expect(Array.from(doubled.values())).toEqual([18, 20, 22, 0, 40, 60]);
+  });
+
+  test('should require a comparator', () => {
+    expect(() => createSortedTurboMap(null as unknown as () => number)).toThrow('comparator');
+  });
+});
@@ -0,0 +1,108 @@
+import { createEnhancedTurboMap } from '../src/index';
+
+describe('Transactions', () => {
+  test('should commit all staged changes', () => {
+    const map = createEnhancedTurboMap<{ id: number }, string>([[{ id: 1 }, 'one']]);
+
+    map.transaction(tx => {
+      tx.set({ id: 2 }, 'two');
+      tx.delete({ id: 1 });
+    });
+
+    expect(map.has({ id: 1 })).toBe(false);
+    expect(map.get({ id: 2 })).toBe('two');
+  });
+
+  test('should return the callback result', () => {
+    const map = createEnhancedTurboMap<string, number>();
+    expect(map.transaction(tx => tx.set('a', 1).get('a'))).toBe(1);
+  });
+
+  test('should expose staged state to reads inside the transaction', () => {
+    const map = createEnhancedTurboMap<string, number>([['a', 1]]);
+
+    map.transaction(tx => {
+      tx.set('b', 2);
+      expect(tx.get('b')).toBe(2);
+      expect(map.has('b')).toBe(false);
+
+      tx.delete('a');
+      expect(tx.has('a')).toBe(false);
+
+      tx.clear();
+      expect(tx.get('b')).toBeUndefined();
+      tx.set('c', 3);
+      expect(tx.has('c')).toBe(true);
+    });
+
+    expect(Array.from(map.entries())).toEqual([['c', 3]]);
+  });
+
+  test('should roll back every change when the callback throws', async () => {
+    const map = createEnhancedTurboMap<string, number>([['a', 1]]);
+    const afterSet = jest.fn();
+    const listener = jest.fn();
+    await map.addPlugin({ name: 'observer', afterSet });
+    map.subscribe(listener);
+
+    expect(() => map.transaction(tx => {
+      tx.set('b', 2);
+      tx.delete('a');
+      tx.clear();
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    expect(Array.from(map.entries())).toEqual([['a', 1]]);
+    expect(afterSet).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should fire after hooks and events once committed', async () => {
+    const map = createEnhancedTurboMap<string, number>();
+    const afterSet = jest.fn();
+    const listener = jest.fn();
+    await map.addPlugin({ name: 'observer', afterSet });
+    map.subscribe(listener);
+
+    map.transaction(tx => {
+      tx.set('a', 1);
+      tx.set('b', 2);
+    });
+
+    expect(afterSet).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls.map(([event]) => event.key)).toEqual(['a', 'b']);
+  });
+
+  test('should reject nested and asynchronous transactions', () => {
+    const map = createEnhancedTurboMap<string, number>();
+
+    expect(() => map.transaction(() => map.transaction(() => undefined))).toThrow('Nested');
+    expect(() => map.transaction(async tx => {
+      tx.set('a', 1);
+    })).toThrow('synchronous');
+    expect(map.has('a')).toBe(false);
+  });
+
+  test('should make setAll all-or-nothing and report its failure', () => {
+    const map = createEnhancedTurboMap<string, number>();
+
+    expect(() => map.setAll([['a', 1], null as any, ['c', 3]])).toThrow(TypeError);
+
+    expect(map.size).toBe(0);
+  });
+
+  test('should reject writes made on the map inside the callback', () => {
+    const map = createEnhancedTurboMap<string, number>([['a', 1]]);
+
+    expect(() => map.transaction(tx => {
+      tx.set('b', 2);
+      map.set('c', 3);
+    })).toThrow('Use the transaction handle instead of set() inside transaction()');
+    expect(() => map.transaction(() => map.delete('a'))).toThrow('instead of delete()');
+    expect(() => map.transaction(() => map.clear())).toThrow('instead of clear()');
+
+    expect(Array.from(map.entries())).toEqual([['a', 1]]);
+    map.set('d', 4);
+    expect(map.get('d')).toBe(4);
+  });
+});
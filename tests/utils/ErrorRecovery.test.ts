@@ -109,6 +109,21 @@ describe('ErrorRecovery', () => {
       expect(stats.total).toBeGreaterThan(0);
       expect(stats.byType[ErrorType.UNKNOWN]).toBeGreaterThan(0);
     });
+
+    test('should skip quota errors without retrying or entering fallback mode', () => {
+      const operation = jest.fn().mockImplementation(() => {
+        throw new Error('Quota exceeded');
+      });
+      const fallback = jest.fn().mockReturnValue('fallback');
+
+      for (let i = 0; i < 3; i++) {
+        errorRecovery.executeWithRecovery(operation, fallback, 'test-operation', ErrorType.QUOTA);
+      }
+
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(errorRecovery.getStats().byType[ErrorType.QUOTA]).toBe(3);
+      expect(errorRecovery.isInFallbackMode()).toBe(false);
+    });
   });
 
   describe('Recovery Policies', () => {
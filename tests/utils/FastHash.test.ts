@@ -353,4 +353,33 @@ describe('FastHash', () => {
       });
     });
   });
+
+  describe('Injectivity', () => {
+    test('should keep strings with separators apart from other values', () => {
+      expect(hasher.fastHash({ a: '1,b:2' })).not.toBe(hasher.fastHash({ a: 1, b: 2 }));
+      expect(hasher.fastHash({ a: '1' })).not.toBe(hasher.fastHash({ a: 1 }));
+      expect(hasher.fastHash(['a,b'])).not.toBe(hasher.fastHash(['a', 'b']));
+    });
+
+    test('should hash nested values by content', () => {
+      expect(hasher.fastHash([{ a: 1 }])).not.toBe(hasher.fastHash([{ a: 2 }]));
+      expect(hasher.fastHash({ when: new Date(1) })).not.toBe(hasher.fastHash({ when: new Date(2) }));
+    });
+
+    test('should hash symbols by the identity mode', () => {
+      const sym = Symbol('a');
+
+      expect(hasher.fastHash(Symbol('a'))).toBe(hasher.fastHash(Symbol('b')));
+      expect(hasher.fastHash({ s: Symbol('a') }, { symbolIdentity: 'description' }))
+        .not.toBe(hasher.fastHash({ s: Symbol('b') }, { symbolIdentity: 'description' }));
+      expect(hasher.fastHash([sym], { symbolIdentity: 'identity' })).toBe(hasher.fastHash([sym], { symbolIdentity: 'identity' }));
+      expect(hasher.fastHash([sym], { symbolIdentity: 'identity' })).not.toBe(hasher.fastHash([Symbol('a')], { symbolIdentity: 'identity' }));
+      expect(hasher.fastHash(Symbol.for('k'), { symbolIdentity: 'identity' })).toBe(hasher.fastHash(Symbol.for('k')));
+    });
+
+    test('should not hash values it cannot describe exactly', () => {
+      expect(hasher.fastHash({ lookup: new Map([[1, 2]]) })).toBeNull();
+      expect(hasher.fastHash(new Set([1]))).toBeNull();
+    });
+  });
 }); 
@@ -0,0 +1,70 @@
+import { SkipList } from '../../src/turboMap/utils/SkipList';
+
+describe('SkipList', () => {
+  let list: SkipList<number>;
+
+  beforeEach(() => {
+    list = new SkipList<number>((a, b) => a - b);
+  });
+
+  test('should keep items ordered', () => {
+    for (const value of [5, 1, 9, 3, 7]) {
+      list.insert(value);
+    }
+
+    expect(Array.from(list)).toEqual([1, 3, 5, 7, 9]);
+    expect(list.size).toBe(5);
+    expect(list.first()).toBe(1);
+    expect(list.last()).toBe(9);
+  });
+
+  test('should replace equal items and remove items', () => {
+    list.insert(1);
+    list.insert(2);
+
+    expect(list.insert(2)).toBe(false);
+    expect(list.size).toBe(2);
+    expect(list.remove(1)).toBe(true);
+    expect(list.remove(1)).toBe(false);
+    expect(Array.from(list)).toEqual([2]);
+  });
+
+  test('should find neighbours and ranges', () => {
+    for (const value of [10, 20, 30, 40]) {
+      list.insert(value);
+    }
+
+    expect(list.floor(25)).toBe(20);
+    expect(list.floor(20)).toBe(20);
+    expect(list.floor(5)).toBeUndefined();
+    expect(list.ceiling(25)).toBe(30);
+    expect(list.ceiling(45)).toBeUndefined();
+    expect(Array.from(list.range(15, 30))).toEqual([20, 30]);
+  });
+
+  test('should stay consistent through many random operations', () => {
+    const reference = new Set<number>();
+    for (let i = 0; i < 2000; i++) {
+      const value = Math.floor(Math.random() * 500);
+      if (Math.random() < 0.6) {
+        list.insert(value);
+        reference.add(value);
+      } else {
+        list.remove(value);
+        reference.delete(value);
+      }
+    }
+
+    expect(Array.from(list)).toEqual(Array.from(reference).sort((a, b) => a - b));
+    expect(list.size).toBe(reference.size);
+  });
+
+  test('should clear all items', () => {
+    list.insert(1);
+    list.clear();
+
+    expect(list.size).toBe(0);
+    expect(list.first()).toBeUndefined();
+    expect(list.last()).toBeUndefined();
+  });
+});
@@ -0,0 +1,20 @@
+import { SymbolRegistry } from '../../src/turboMap/utils/SymbolRegistry';
+
+describe('SymbolRegistry', () => {
+  test('should give each symbol its own stable number', () => {
+    const registry = new SymbolRegistry();
+    const first = Symbol('same');
+    const second = Symbol('same');
+
+    expect(registry.identify(first)).toBe(0);
+    expect(registry.identify(second)).toBe(1);
+    expect(registry.identify(first)).toBe(0);
+  });
+
+  test('should keep numbers separate per registry', () => {
+    const sym = Symbol();
+
+    expect(new SymbolRegistry().identify(sym)).toBe(0);
+    expect(new SymbolRegistry().identify(Symbol())).toBe(0);
+  });
+});
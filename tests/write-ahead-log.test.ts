@@ -0,0 +1,193 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createEnhancedTurboMap, createSortedTurboMap, WriteAheadLog, type EnhancedTurboMapLike } from '../src/turboMap';
+import { decodeWalRecord } from '../src/turboMap/core/WriteAheadLog';
+
+// Required rather than imported so spies reach the module the log writes through
+const fs: typeof import('node:fs') = require('node:fs');
+
+describe('Write-Ahead Log', () => {
+  let dir: string;
+  let path: string;
+  const open: Array<{ close(): void }> = [];
+
+  const recover = async <K, V>(options = {}): Promise<EnhancedTurboMapLike<K, V>> => {
+    const map = createEnhancedTurboMap<K, V>({ ...options, writeAheadLog: await WriteAheadLog.open(path) });
+    open.push(map);
+    return map;
+  };
+  const readOps = () => fs.readFileSync(path, 'utf8').trim().split('\n').map(line => decodeWalRecord(line)?.op);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(tmpdir(), 'turbomap-wal-'));
+    path = join(dir, 'map.wal');
+  });
+
+  afterEach(() => {
+    for (const closable of open.splice(0)) {
+      closable.close();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should rebuild a map from its log', async () => {
+    const first = await recover<unknown, unknown>();
+    first.set('a', 1);
+    first.set({ id: 2 }, new Map([['x', 1n]]));
+    first.set('c', 3);
+    first.delete('a');
+
+    const second = await createEnhancedTurboMap.recover<unknown, unknown>(path);
+    open.push(second);
+
+    expect(second.size).toBe(2);
+    expect(second.get({ id: 2 })).toEqual(new Map([['x', 1n]]));
+    expect(second.get('c')).toBe(3);
+    expect(second.getHealthStatus().writeAheadLog?.recovery).toMatchObject({ records: 4, tornRecord: false });
+  });
+
+  test('should log each mutation before applying it', async () => {
+    const map = await recover<string, number>();
+    const presentWhenSynced: boolean[] = [];
+    const fsyncSync = fs.fsyncSync;
+    const fsync = jest.spyOn(fs, 'fsyncSync').mockImplementation(fd => {
+      presentWhenSynced.push(map.has('a'));
+      fsyncSync(fd);
+    });
+
+    map.set('a', 1);
+    fsync.mockRestore();
+
+    expect(presentWhenSynced).toEqual([false]);
+    expect(map.get('a')).toBe(1);
+  });
+
+  test('should leave the map unchanged when the log cannot be written', async () => {
+    const map = await recover<string, number>();
+    map.set('a', 1);
+    const fsync = jest.spyOn(fs, 'fsyncSync').mockImplementation(() => {
+      throw new Error('EIO');
+    });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      map.set('b', 2);
+      map.delete('a');
+    } finally {
+      fsync.mockRestore();
+      warn.mockRestore();
+    }
+
+    expect(map.has('b')).toBe(false);
+    expect(map.get('a')).toBe(1);
+    const health = map.getHealthStatus();
+    expect(health.healthy).toBe(false);
+    expect(health.writeAheadLog?.failed).toBe(true);
+    expect(readOps()).toEqual(['set']);
+  });
+
+  test('should report a torn trailing record in the health status', async () => {
+    const first = await recover<string, number>();
+    first.set('a', 1);
+    first.set('b', 2);
+    fs.truncateSync(path, fs.statSync(path).size - 5);
+
+    const second = await recover<string, number>();
+
+    expect(Array.from(second.entries())).toEqual([['a', 1]]);
+    expect(second.getHealthStatus().writeAheadLog?.recovery).toMatchObject({ records: 1, tornRecord: true });
+    expect(second.getHealthStatus().healthy).toBe(true);
+  });
+
+  test('should replay transactions atomically', async () => {
+    const first = await recover<string, number>();
+    first.transaction(tx => {
+      tx.set('a', 1);
+      tx.set('b', 2);
+    });
+    expect(() => first.transaction(tx => {
+      tx.set('c', 3);
+      throw new Error('abandoned');
+    })).toThrow('abandoned');
+    expect(readOps()).toEqual(['begin', 'set', 'set', 'commit']);
+
+    // A crash before the commit record leaves the transaction out
+    const lines = fs.readFileSync(path, 'utf8').split('\n');
+    fs.writeFileSync(path, lines.slice(0, 3).join('\n') + '\n');
+    const second = await recover<string, number>();
+
+    expect(second.size).toBe(0);
+    expect(second.getHealthStatus().writeAheadLog?.recovery.incompleteTransaction).toBe(true);
+  });
+
+  test('should keep expiry times and evictions', async () => {
+    const first = await recover<string, number>({ maxEntries: 2 });
+    first.set('a', 1, { ttl: 60000 });
+    first.set('b', 2);
+    first.get('a');
+    first.set('c', 3);
+    expect(Array.from(first.keys()).sort()).toEqual(['a', 'c']);
+
+    const second = await recover<string, number>({ maxEntries: 2 });
+    expect(Array.from(second.keys()).sort()).toEqual(['a', 'c']);
+
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 61000);
+    try {
+      expect(second.has('a')).toBe(false);
+      expect(second.has('c')).toBe(true);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('should checkpoint the log on compact', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const map = await recover<string, number>();
+    for (let i = 0; i < 5; i++) {
+      map.set('counter', i);
+    }
+
+    map.compact();
+    log.mockRestore();
+
+    expect(readOps()).toEqual(['set']);
+    const restored = await recover<string, number>();
+    expect(restored.get('counter')).toBe(4);
+  });
+
+  test('should not share the log with derived maps', async () => {
+    const map = await recover<string, number>();
+    map.set('a', 1);
+
+    map.clone().set('b', 2);
+    map.mapValues(value => value * 2).set('c', 3);
+
+    expect(readOps()).toEqual(['set']);
+  });
+
+  test('should close the log and stop sweeping when the map is closed', async () => {
+    jest.useFakeTimers({ doNotFake: ['Date'] });
+    try {
+      const map = await recover<string, number>({ expirationCheckInterval: 1000 });
+      map.set('a', 1, { ttl: 60000 });
+      // The expiry sweeper and the auto-cleanup interval
+      expect(jest.getTimerCount()).toBe(2);
+
+      map.close();
+
+      expect(jest.getTimerCount()).toBe(0);
+      expect(map.getHealthStatus().writeAheadLog?.closed).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should be rejected by sorted maps', async () => {
+    const wal = await WriteAheadLog.open(path);
+    open.push(wal);
+
+    expect(() => createSortedTurboMap<string, number>((a, b) => a.localeCompare(b), { writeAheadLog: wal }))
+      .toThrow('does not support writeAheadLog');
+  });
+});